@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { isValidTripId, readTrip } from "@/lib/trip-store";
+import { MigrationError } from "@/lib/migrations";
+import { buildICS, icsFileName, personalICSOptions } from "@/lib/ics";
+import { findParticipant } from "@/lib/participants";
+
+// Calendar apps re-fetch subscribed feeds on their own schedule; this asks for hourly
+const FEED_REFRESH_MINUTES = 60;
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>;
+}
+
+// Live feed for webcal:// subscriptions; ?participant=<id> limits it to that person's events (a
+// name still works for links made before participants had ids)
+export async function GET(req: Request, { params }: RouteParams) {
+  const { tripId } = await params;
+  if (!isValidTripId(tripId)) return NextResponse.json({ error: "Invalid trip id" }, { status: 400 });
+  let itin;
+  try {
+    itin = await readTrip(tripId);
+  } catch (err) {
+    if (!(err instanceof MigrationError)) throw err;
+    return NextResponse.json({ error: err.message, issues: err.issues }, { status: 422 });
+  }
+  if (!itin) return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+
+  const who = new URL(req.url).searchParams.get("participant")?.trim() || "";
+  const participant = who ? findParticipant(itin.participants, who) : undefined;
+  if (who && !participant) return NextResponse.json({ error: "Participant not found" }, { status: 404 });
+  const ics = buildICS(itin, {
+    tripId,
+    ...(participant ? personalICSOptions(itin, participant) : {}),
+    refreshMinutes: FEED_REFRESH_MINUTES,
+  });
+  return new Response(ics, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="${icsFileName(itin, undefined, participant)}"`,
+      "Cache-Control": "no-cache",
+    },
+  });
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { isValidTripId } from "@/lib/trip-store";
+import { subscribe } from "@/lib/trip-events";
+
+export const dynamic = "force-dynamic";
+
+// Proxies drop connections that go quiet, so an SSE comment goes out this often
+const HEARTBEAT_MS = 25_000;
+const RETRY_MS = 3_000;
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>;
+}
+
+// Server-sent events for an open trip page: "trip" whenever another page saves, "presence"
+// whenever someone opens or leaves the trip. ?client= identifies the page, ?name= who's on it.
+export async function GET(req: Request, { params }: RouteParams) {
+  const { tripId } = await params;
+  if (!isValidTripId(tripId)) return NextResponse.json({ error: "Invalid trip id" }, { status: 400 });
+  const query = new URL(req.url).searchParams;
+  const clientId = query.get("client")?.trim() || "";
+  if (!clientId) return NextResponse.json({ error: "Missing client id" }, { status: 400 });
+  const name = (query.get("name")?.trim() || "Guest").slice(0, 60);
+
+  const encoder = new TextEncoder();
+  let close = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (text: string) => {
+        if (closed) return;
+        try { controller.enqueue(encoder.encode(text)); } catch { close(); }
+      };
+      write(`retry: ${RETRY_MS}\n\n`);
+      const unsubscribe = subscribe(tripId, { clientId, name }, (event) => write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+      close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try { controller.close(); } catch { /* already closed by the client */ }
+      };
+      req.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      close();
+    },
+  });
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
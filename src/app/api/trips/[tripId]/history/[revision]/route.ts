@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { isValidTripId, readTripWithLog } from "@/lib/trip-store";
+import { MigrationError } from "@/lib/migrations";
+import { versionAt } from "@/lib/history";
+
+interface RouteParams {
+  params: Promise<{ tripId: string; revision: string }>;
+}
+
+// The trip as it was at an earlier revision, rebuilt from the change log
+export async function GET(_req: Request, { params }: RouteParams) {
+  const { tripId, revision } = await params;
+  if (!isValidTripId(tripId)) return NextResponse.json({ error: "Invalid trip id" }, { status: 400 });
+  const wanted = Number(revision);
+  if (!Number.isInteger(wanted)) return NextResponse.json({ error: "Invalid revision" }, { status: 400 });
+  let stored;
+  try {
+    stored = await readTripWithLog(tripId);
+  } catch (err) {
+    if (!(err instanceof MigrationError)) throw err;
+    return NextResponse.json({ error: err.message, issues: err.issues }, { status: 422 });
+  }
+  if (!stored) return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+  const version = versionAt(stored.trip, stored.log.entries, stored.log.revision, wanted);
+  if (!version) return NextResponse.json({ error: "That version is no longer in the change log" }, { status: 404 });
+  return NextResponse.json(version, { headers: { "X-Trip-Revision": String(wanted) } });
+}
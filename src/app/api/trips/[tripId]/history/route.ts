@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { isValidTripId, readTripWithLog } from "@/lib/trip-store";
+import { MigrationError } from "@/lib/migrations";
+import { summarizeLog } from "@/lib/history";
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>;
+}
+
+// The trip's change log, newest first, described for people
+export async function GET(_req: Request, { params }: RouteParams) {
+  const { tripId } = await params;
+  if (!isValidTripId(tripId)) return NextResponse.json({ error: "Invalid trip id" }, { status: 400 });
+  let stored;
+  try {
+    stored = await readTripWithLog(tripId);
+  } catch (err) {
+    if (!(err instanceof MigrationError)) throw err;
+    return NextResponse.json({ error: err.message, issues: err.issues }, { status: 422 });
+  }
+  if (!stored) return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+  return NextResponse.json({ revision: stored.log.revision, changes: summarizeLog(stored.trip, stored.log.entries) });
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { commitOps, isValidTripId } from "@/lib/trip-store";
+import { MigrationError } from "@/lib/migrations";
+import { isOperation } from "@/lib/operations";
+import { publish } from "@/lib/trip-events";
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>;
+}
+
+interface OpsRequest {
+  baseRevision: number;
+  ops: unknown[];
+  author?: string;
+}
+
+// Merges one page's edits into the stored trip. The response carries the merged trip, its new
+// revision and any of the page's operations that clashed with someone else's.
+export async function POST(req: Request, { params }: RouteParams) {
+  const { tripId } = await params;
+  if (!isValidTripId(tripId)) return NextResponse.json({ error: "Invalid trip id" }, { status: 400 });
+  let body: OpsRequest;
+  try {
+    body = (await req.json()) as OpsRequest;
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+  if (typeof body?.baseRevision !== "number" || !Array.isArray(body.ops) || !body.ops.every(isOperation)) {
+    return NextResponse.json({ error: "Expected { baseRevision, ops }" }, { status: 400 });
+  }
+  const from = req.headers.get("X-Client-Id") ?? "";
+  let result;
+  try {
+    result = await commitOps(tripId, body.baseRevision, body.ops, { clientId: from, author: String(body.author ?? "").trim().slice(0, 60) });
+  } catch (err) {
+    if (!(err instanceof MigrationError)) throw err;
+    return NextResponse.json({ error: err.message, issues: err.issues }, { status: 422 });
+  }
+  if (!result) return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+  if (result.conflicts.length < body.ops.length) publish(tripId, { type: "trip", trip: result.trip, revision: result.revision, from });
+  return NextResponse.json(result);
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { isValidTripId, readRawTripWithRevision, replaceTrip } from "@/lib/trip-store";
+import { MigrationError, migrateItinerary } from "@/lib/migrations";
+import { publish } from "@/lib/trip-events";
+
+// Names can be any script, so pages send them URI-encoded; capped like the ops route's author
+function authorOf(req: Request): string {
+  try { return decodeURIComponent(req.headers.get("X-Author") ?? "").trim().slice(0, 60); } catch { return ""; }
+}
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>;
+}
+
+export async function GET(_req: Request, { params }: RouteParams) {
+  const { tripId } = await params;
+  if (!isValidTripId(tripId)) return NextResponse.json({ error: "Invalid trip id" }, { status: 400 });
+  // Served as stored; the client migrates it and offers recovery when that fails
+  const stored = await readRawTripWithRevision(tripId);
+  if (stored === null) return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+  return NextResponse.json(stored.raw, { headers: { "X-Trip-Revision": String(stored.revision) } });
+}
+
+export async function PUT(req: Request, { params }: RouteParams) {
+  const { tripId } = await params;
+  if (!isValidTripId(tripId)) return NextResponse.json({ error: "Invalid trip id" }, { status: 400 });
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+  let itin;
+  try {
+    itin = migrateItinerary(body);
+  } catch (err) {
+    if (!(err instanceof MigrationError)) throw err;
+    return NextResponse.json({ error: err.message, issues: err.issues }, { status: 422 });
+  }
+  // Replaces the whole trip; everyday edits go through ./ops so they can be merged
+  const from = req.headers.get("X-Client-Id") ?? "";
+  const revision = await replaceTrip(tripId, itin, { clientId: from, author: authorOf(req) });
+  // Other open pages pick the change up; the saving page knows itself by its client id
+  publish(tripId, { type: "trip", trip: itin, revision, from });
+  return NextResponse.json({ ok: true, revision });
+}
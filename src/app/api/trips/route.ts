@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { createTrip, isValidTripId, listTrips, readTrip } from "@/lib/trip-store";
+import { blankItinerary, cloneItinerary, type CreateTripRequest } from "@/lib/trips";
+import { MigrationError } from "@/lib/migrations";
+
+export async function GET() {
+  return NextResponse.json(await listTrips());
+}
+
+export async function POST(req: Request) {
+  let body: Partial<CreateTripRequest>;
+  try {
+    body = (await req.json()) as Partial<CreateTripRequest>;
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+  const title = (body.title || "").trim();
+  if (!title) return NextResponse.json({ error: "Trip title is required" }, { status: 400 });
+
+  let itin = blankItinerary(title);
+  if (body.cloneFrom) {
+    try {
+      const source = isValidTripId(body.cloneFrom) ? await readTrip(body.cloneFrom) : null;
+      if (!source) return NextResponse.json({ error: "Trip to clone not found" }, { status: 404 });
+      itin = cloneItinerary(source, title);
+    } catch (err) {
+      if (!(err instanceof MigrationError)) throw err;
+      return NextResponse.json({ error: err.message, issues: err.issues }, { status: 422 });
+    }
+  }
+  const id = await createTrip(title, itin);
+  return NextResponse.json({ id }, { status: 201 });
+}
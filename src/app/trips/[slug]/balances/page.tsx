@@ -0,0 +1,6 @@
+import { TripBalances } from "@/components/trip-balances";
+
+export default async function BalancesPage({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  return <TripBalances tripId={slug} />;
+}
@@ -0,0 +1,6 @@
+import { ItineraryApp } from "@/components/itinerary-app";
+
+export default async function TripPage({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  return <ItineraryApp tripId={slug} />;
+}
@@ -0,0 +1,13 @@
+import { PersonalSheet } from "@/components/personal";
+
+interface SheetPageProps {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ participant?: string }>;
+}
+
+// Printable itinerary for one participant: /trips/<id>/sheet?participant=<id or name>
+export default async function SheetPage({ params, searchParams }: SheetPageProps) {
+  const { slug } = await params;
+  const { participant } = await searchParams;
+  return <PersonalSheet tripId={slug} participantId={participant ?? ""} />;
+}
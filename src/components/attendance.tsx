@@ -0,0 +1,113 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Users } from "lucide-react";
+import type { EventItem, Participant, RSVPStatus } from "@/lib/types";
+import { expectedRange, headcount, isInvited, isOnTrip, participantLabel, reservationWarning, rsvpOf, withRSVP } from "@/lib/participants";
+
+// Radix Select can't use "" as an item value
+const NO_ANSWER = "__none__";
+export const RSVP_LABELS: Record<RSVPStatus, string> = { yes: "Going", maybe: "Maybe", no: "Not going" };
+
+export function HeadcountBadge({ event, participants, dayId }: { event: EventItem; participants: Participant[]; dayId: string }) {
+  if (!participants.length) return null;
+  const h = headcount(participants, event, dayId);
+  const [low, high] = expectedRange(h);
+  const warn = reservationWarning(h, event.reservation);
+  const parts = [`${h.yes} going`, h.maybe && `${h.maybe} maybe`, h.pending && `${h.pending} not answered`, h.no && `${h.no} not going`, h.away && `${h.away} away`].filter(Boolean);
+  return (
+    <Badge variant="outline" className={`gap-1 tabular-nums ${warn ? "border-amber-500 text-amber-700" : ""}`} title={parts.join(", ")}>
+      <Users className="h-3 w-3"/>{low === high ? low : `${low}–${high}`}
+    </Badge>
+  );
+}
+
+// Party size booked, committed on blur; blank clears it
+function ReservationInput({ value, onCommit }: { value?: number; onCommit: (n: number | undefined) => void }) {
+  const [text, setText] = useState<string>(value === undefined ? "" : String(value));
+  useEffect(()=>{ setText(value === undefined ? "" : String(value)); }, [value]);
+  const onBlur = () => {
+    const n = text.trim() === "" ? undefined : parseInt(text, 10);
+    if (n === undefined || (n > 0 && n !== value)) onCommit(n); else setText(value === undefined ? "" : String(value));
+  };
+  return <Input value={text} onChange={(e)=>setText(e.target.value)} onBlur={onBlur} inputMode="numeric" placeholder="—" className="w-16 h-7" aria-label="Reservation size" />;
+}
+
+interface AttendancePanelProps {
+  event: EventItem;
+  participants: Participant[];
+  dayId: string;
+  editMode: boolean;
+  onChange: (event: EventItem) => void;
+}
+export function AttendancePanel({ event, participants, dayId, editMode, onChange }: AttendancePanelProps) {
+  if (!participants.length) return null;
+  const warning = reservationWarning(headcount(participants, event, dayId), event.reservation);
+  // Toggling from "everyone" starts an explicit list with everyone but the one clicked
+  const onToggleInvite = (id: string) => {
+    const current = event.attendees ?? participants.map((p)=>p.id);
+    const next = current.includes(id) ? current.filter((x)=>x!==id) : [...current, id];
+    const everyone = participants.every((p)=>next.includes(p.id));
+    onChange({ ...event, attendees: everyone ? undefined : next });
+  };
+
+  if (editMode) {
+    return (
+      <div className="text-sm space-y-2">
+        <div className="flex items-center gap-2">
+          <Users className="h-4 w-4"/>
+          <span>Booked for</span>
+          <ReservationInput value={event.reservation} onCommit={(reservation)=>onChange({ ...event, reservation })} />
+          {warning && <span className="text-xs flex items-center gap-1 text-amber-700"><AlertTriangle className="h-3 w-3"/>{warning}</span>}
+        </div>
+        <div className="grid sm:grid-cols-2 gap-1 pl-6">
+          {participants.map((p)=> {
+            const invited = isInvited(event, p.id);
+            return (
+              <div key={p.id} className="flex items-center gap-2">
+                <Badge asChild variant={invited ? "secondary" : "outline"}>
+                  <button type="button" onClick={()=>onToggleInvite(p.id)} title={invited ? "Invited — click to remove" : "Not invited — click to add"}>{participantLabel(p)}</button>
+                </Badge>
+                {invited && (
+                  <Select value={rsvpOf(event, p.id) ?? NO_ANSWER} onValueChange={(v)=>onChange(withRSVP(event, p.id, v === NO_ANSWER ? undefined : v as RSVPStatus))}>
+                    <SelectTrigger size="sm" className="h-7"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ANSWER}>No answer</SelectItem>
+                      {Object.entries(RSVP_LABELS).map(([value, label])=> <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                )}
+                {invited && !isOnTrip(p, dayId) && <span className="text-xs text-muted-foreground">away</span>}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  // Only worth a line when someone's left out, has answered, or the booking looks wrong
+  const invited = participants.filter((p)=>isInvited(event, p.id));
+  const group = (status: RSVPStatus) => invited.filter((p)=>rsvpOf(event, p.id) === status).map(participantLabel);
+  const away = invited.filter((p)=>!rsvpOf(event, p.id) && !isOnTrip(p, dayId)).map(participantLabel);
+  const lines = [
+    event.attendees && `Invited: ${invited.map(participantLabel).join(", ") || "no one yet"}`,
+    group("yes").length > 0 && `${RSVP_LABELS.yes}: ${group("yes").join(", ")}`,
+    group("maybe").length > 0 && `${RSVP_LABELS.maybe}: ${group("maybe").join(", ")}`,
+    group("no").length > 0 && `${RSVP_LABELS.no}: ${group("no").join(", ")}`,
+    away.length > 0 && `Away: ${away.join(", ")}`,
+  ].filter(Boolean);
+  if (!lines.length && !warning) return null;
+  return (
+    <div className="text-sm flex items-start gap-2 text-muted-foreground">
+      <Users className="h-4 w-4 mt-0.5"/>
+      <div>
+        {lines.map((l, i)=> <div key={i}>{l}</div>)}
+        {warning && <div className="text-xs flex items-center gap-1 text-amber-700"><AlertTriangle className="h-3 w-3"/>{warning}</div>}
+      </div>
+    </div>
+  );
+}
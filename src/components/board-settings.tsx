@@ -0,0 +1,58 @@
+"use client";
+
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Trash2 } from "lucide-react";
+import type { BoardFormat, BoardSort, BoardSource, BoardTieBreak, Leaderboard } from "@/lib/types";
+import { BOARD_FORMATS, BOARD_SORTS, BOARD_SOURCES, BOARD_TIE_BREAKS, withSource } from "@/lib/leaderboards";
+
+// Radix Select can't use "" as an item value
+const TYPED = "__typed__";
+
+function Choice<T extends string>({ label, value, options, onChange }: { label: string; value: T; options: Record<T, string>; onChange: (value: T) => void }) {
+  return (
+    <label className="space-y-1">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <Select value={value} onValueChange={(v)=>onChange(v as T)}>
+        <SelectTrigger size="sm" className="w-full"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {(Object.entries(options) as [T, string][]).map(([v, text])=> <SelectItem key={v} value={v}>{text}</SelectItem>)}
+        </SelectContent>
+      </Select>
+    </label>
+  );
+}
+
+// How a board is named, scored and ranked; a computed source fills the rows from scorecards or the ledger
+export function BoardSettings({ board, onChange, onRemove }: { board: Leaderboard; onChange: (board: Leaderboard) => void; onRemove: () => void }) {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 rounded-md border p-2 text-sm">
+      <label className="space-y-1">
+        <span className="text-xs text-muted-foreground">Name</span>
+        <Input value={board.name} placeholder="Board name" className="h-8" onChange={(e)=>onChange({ ...board, name: e.target.value })} />
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs text-muted-foreground">Unit</span>
+        <Input value={board.unit ?? ""} placeholder="Score" className="h-8" onChange={(e)=>onChange({ ...board, unit: e.target.value || undefined })} />
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs text-muted-foreground">Scores from</span>
+        <Select value={board.source ?? TYPED} onValueChange={(v)=>onChange(withSource(board, v === TYPED ? undefined : v as BoardSource))}>
+          <SelectTrigger size="sm" className="w-full"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={TYPED}>Typed in</SelectItem>
+            {Object.entries(BOARD_SOURCES).map(([v, text])=> <SelectItem key={v} value={v}>{text}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </label>
+      <Choice<BoardSort> label="Sort" value={board.sort} options={BOARD_SORTS} onChange={(sort)=>onChange({ ...board, sort })} />
+      <Choice<BoardFormat> label="Format" value={board.format} options={BOARD_FORMATS} onChange={(format)=>onChange({ ...board, format })} />
+      <Choice<BoardTieBreak> label="Ties" value={board.tieBreak} options={BOARD_TIE_BREAKS} onChange={(tieBreak)=>onChange({ ...board, tieBreak })} />
+      <div className="col-span-full flex justify-end">
+        <Button size="sm" variant="ghost" onClick={onRemove}><Trash2 className="h-4 w-4 mr-1"/>Remove board</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { RotateCcw } from "lucide-react";
+import type { Itinerary } from "@/lib/types";
+import type { ChangeSummary } from "@/lib/history";
+import { fetchHistory, fetchVersion } from "@/lib/trip-api";
+import { migrateItinerary } from "@/lib/migrations";
+import { formatDateTime, type ZoneContext } from "@/lib/format";
+
+const SHOWN_LINES = 4;
+
+function ChangeRow({ change, zone, current, busy, onRestore }: { change: ChangeSummary; zone: ZoneContext; current: boolean; busy: boolean; onRestore: () => void }) {
+  const [expanded, setExpanded] = useState(false);
+  const lines = expanded ? change.lines : change.lines.slice(0, SHOWN_LINES);
+  return (
+    <div className="space-y-1 border-t pt-3">
+      <div className="flex items-center gap-2">
+        <span className="font-medium">{change.author || "Someone"}</span>
+        <span className="text-xs text-muted-foreground">{formatDateTime(change.at, zone)}</span>
+        <span className="ml-auto" />
+        {current
+          ? <Badge variant="outline">Current</Badge>
+          : <Button size="sm" variant="outline" disabled={!change.restorable || busy} onClick={onRestore} title={change.restorable ? "Go back to the trip as it was right after this change" : "Too old to rebuild"}><RotateCcw className="h-4 w-4 mr-1"/>Restore</Button>}
+      </div>
+      <ul className="list-disc pl-6 text-xs space-y-0.5">
+        {lines.map((line, i)=> <li key={i}>{line}</li>)}
+      </ul>
+      {change.lines.length > SHOWN_LINES && (
+        <button className="pl-6 text-xs text-muted-foreground underline" onClick={()=>setExpanded((v)=>!v)}>
+          {expanded ? "Show less" : `${change.lines.length - SHOWN_LINES} more`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface ChangeHistoryProps {
+  tripId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  zone: ZoneContext;
+  onRestore: (itin: Itinerary) => void;
+}
+// Everything saved to the trip, who saved it and when; any version the log still reaches can be
+// brought back, which is itself saved as a change (and can be undone)
+export function ChangeHistory({ tripId, open, onOpenChange, zone, onRestore }: ChangeHistoryProps) {
+  const [changes, setChanges] = useState<ChangeSummary[] | null>(null);
+  const [error, setError] = useState<string>("");
+  const [busy, setBusy] = useState<boolean>(false);
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setError("");
+    fetchHistory(tripId)
+      .then((list) => { if (!cancelled) setChanges(list); })
+      .catch((err: Error) => { if (!cancelled) setError(err.message); });
+    return () => { cancelled = true; };
+  }, [tripId, open]);
+
+  const restore = async (change: ChangeSummary) => {
+    const when = formatDateTime(change.at, zone);
+    if (!window.confirm(`Restore the trip as it was after ${change.author || "someone"}'s change on ${when}? Everything changed since then will be undone for everyone. You can undo this.`)) return;
+    setBusy(true);
+    try {
+      onRestore(migrateItinerary(await fetchVersion(tripId, change.revision)));
+      onOpenChange(false);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-xl w-full overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>Changes saved to this trip, newest first. Restore goes back to how the trip looked right after a change.</SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 space-y-3 text-sm">
+          {error && <p className="text-destructive">{error}</p>}
+          {!changes && !error && <p className="text-muted-foreground">Loading…</p>}
+          {changes && changes.length === 0 && <p className="text-muted-foreground">No changes saved yet.</p>}
+          {changes?.map((c, i)=> (
+            <ChangeRow key={c.revision} change={c} zone={zone} current={i === 0} busy={busy} onRestore={()=>restore(c)} />
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import type { Itinerary } from "@/lib/types";
+import { describePath, opResult, type Conflict } from "@/lib/operations";
+import { show } from "@/lib/diff";
+
+function Side({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div className="grid grid-cols-[4rem_1fr] gap-2 text-xs">
+      <span className="font-medium">{label}</span>
+      <span className="break-words">{value === undefined ? <span className="text-muted-foreground">removed</span> : show(value)}</span>
+    </div>
+  );
+}
+
+interface ConflictSheetProps {
+  itin: Itinerary;
+  conflicts: Conflict[];
+  onKeepMine: (conflict: Conflict) => void;
+  onKeepTheirs: (conflict: Conflict) => void;
+}
+// Edits of mine the server held back because someone else changed the same thing first; the
+// trip already shows their version until I keep mine
+export function ConflictSheet({ itin, conflicts, onKeepMine, onKeepTheirs }: ConflictSheetProps) {
+  return (
+    <Sheet open={conflicts.length > 0} onOpenChange={(open)=>{ if (!open) conflicts.forEach(onKeepTheirs); }}>
+      <SheetContent className="sm:max-w-xl w-full overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Someone else changed this too</SheetTitle>
+          <SheetDescription>
+            {conflicts.length} of your edit{conflicts.length !== 1 ? "s were" : " was"} not saved because another person changed the same thing. Closing keeps their version.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 space-y-4 text-sm">
+          {conflicts.map((c, i) => (
+            <div key={i} className="space-y-2 border-t pt-3">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{c.mine.op}</Badge>
+                <span className="font-medium">{describePath(itin, c.mine.path)}</span>
+              </div>
+              <Side label="Yours" value={opResult(c.mine)} />
+              <Side label="Theirs" value={opResult(c.theirs)} />
+              <div className="flex justify-end gap-2">
+                <Button size="sm" variant="outline" onClick={()=>onKeepTheirs(c)}>Keep theirs</Button>
+                <Button size="sm" onClick={()=>onKeepMine(c)}>Keep mine</Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Trophy } from "lucide-react";
+import type { Cup, CupTeam, MatchOutcome, Participant, RoundPlayer } from "@/lib/types";
+import { MATCH_FORMATS } from "@/lib/golf-round";
+import { fmtPoints, outcomeFor, type CupMatch, type TeamIndex } from "@/lib/cup";
+import { formatDateTime, type ZoneContext } from "@/lib/format";
+import { personName, personRef, playerRef } from "@/lib/participants";
+
+const TEAMS: TeamIndex[] = [0, 1];
+
+// Compact "Blue 3½ – 2½ Red" for the header
+export function CupScoreBadge({ cup, score }: { cup: Cup; score: [number, number] }) {
+  return (
+    <Badge variant="outline" className="gap-1 tabular-nums" title={cup.name}>
+      <Trophy className="h-3 w-3"/>
+      <span style={{ color: cup.teams[0].color }}>{cup.teams[0].name} {fmtPoints(score[0])}</span>
+      –
+      <span style={{ color: cup.teams[1].color }}>{fmtPoints(score[1])} {cup.teams[1].name}</span>
+    </Badge>
+  );
+}
+
+// Team fields are committed on blur so typing a comma doesn't reshuffle the grid; names of
+// people on the roster are stored as their participant ids
+function TeamEditor({ team, participants, onChange }: { team: CupTeam; participants: Participant[]; onChange: (team: CupTeam) => void }) {
+  const shownCaptain = personName(participants, team.captain);
+  const shownPlayers = team.players.map((p) => personName(participants, p)).join(", ");
+  const [name, setName] = useState<string>(team.name);
+  const [captain, setCaptain] = useState<string>(shownCaptain);
+  const [players, setPlayers] = useState<string>(shownPlayers);
+  useEffect(() => { setName(team.name); setCaptain(shownCaptain); setPlayers(shownPlayers); }, [team.name, shownCaptain, shownPlayers]);
+  const commitPlayers = () => {
+    const list = players.split(",").map((s) => s.trim()).filter(Boolean);
+    if (list.join(", ") !== shownPlayers) onChange({ ...team, players: list.map((n) => personRef(participants, n)) });
+  };
+  return (
+    <div className="space-y-2 rounded-md border p-2" style={{ borderColor: team.color }}>
+      <div className="flex items-center gap-2">
+        <input type="color" value={team.color} onChange={(e)=>onChange({ ...team, color: e.target.value })} className="h-8 w-10 rounded border" aria-label="Team color" />
+        <Input value={name} onChange={(e)=>setName(e.target.value)} onBlur={()=>{ if (name.trim() && name !== team.name) onChange({ ...team, name: name.trim() }); }} placeholder="Team name" />
+      </div>
+      <Input value={captain} onChange={(e)=>setCaptain(e.target.value)} onBlur={()=>{ if (captain !== shownCaptain) onChange({ ...team, captain: personRef(participants, captain) }); }} placeholder="Captain" />
+      <Input value={players} onChange={(e)=>setPlayers(e.target.value)} onBlur={commitPlayers} placeholder="Players, comma separated" />
+    </div>
+  );
+}
+
+function PlayersCell({ players, participants }: { players: RoundPlayer[]; participants: Participant[] }) {
+  return <span>{players.map((p)=>personName(participants, playerRef(p))).join(" + ")}</span>;
+}
+
+// Result in team terms; stored on the group in side terms
+function ResultSelect({ cup, match, onChange }: { cup: Cup; match: CupMatch; onChange: (result: MatchOutcome | undefined) => void }) {
+  const value = match.winner === null ? "pending" : String(match.winner);
+  const onValue = (v: string) => onChange(v === "pending" ? undefined : outcomeFor(match, v === "halved" ? "halved" : (Number(v) as TeamIndex)));
+  return (
+    <Select value={value} onValueChange={onValue}>
+      <SelectTrigger size="sm"><SelectValue /></SelectTrigger>
+      <SelectContent>
+        <SelectItem value="pending">Not played</SelectItem>
+        <SelectItem value="0">{cup.teams[0].name} won</SelectItem>
+        <SelectItem value="halved">Halved</SelectItem>
+        <SelectItem value="1">{cup.teams[1].name} won</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
+
+function ResultCell({ cup, match }: { cup: Cup; match: CupMatch }) {
+  if (match.winner === null) return <span className="text-muted-foreground">{match.status}</span>;
+  const color = match.winner === "halved" ? undefined : cup.teams[match.winner].color;
+  return <span className="font-medium" style={{ color }}>{match.winner === "halved" ? "Halved" : `${cup.teams[match.winner].name} ${match.status}`}</span>;
+}
+
+interface CupSectionProps {
+  cup: Cup | undefined;
+  matches: CupMatch[];
+  score: [number, number];
+  toWin: number;
+  unassigned: string[];
+  participants: Participant[];
+  editMode: boolean;
+  display: ZoneContext;
+  onCreate: () => void;
+  onChange: (cup: Cup | undefined) => void;
+  onResult: (match: CupMatch, result: MatchOutcome | undefined) => void;
+}
+export function CupSection({ cup, matches, score, toWin, unassigned, participants, editMode, display, onCreate, onChange, onResult }: CupSectionProps) {
+  if (!cup) {
+    if (!editMode) return null;
+    return <Button variant="outline" onClick={onCreate}><Trophy className="h-4 w-4 mr-1"/>Set up team competition</Button>;
+  }
+  const setTeam = (i: TeamIndex, team: CupTeam) => onChange({ ...cup, teams: cup.teams.map((t, j)=> (j === i ? team : t)) as [CupTeam, CupTeam] });
+  const winner = TEAMS.find((t)=> score[t] >= toWin);
+  const name = (ref: string) => personName(participants, ref);
+
+  return (
+    <section className="space-y-3">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex flex-wrap items-center gap-2">
+            <Trophy className="h-5 w-5"/>
+            {editMode ? <Input value={cup.name} onChange={(e)=>onChange({ ...cup, name: e.target.value })} className="w-64" aria-label="Cup name" /> : cup.name}
+            {winner !== undefined && <Badge style={{ backgroundColor: cup.teams[winner].color }}>{cup.teams[winner].name} win the cup</Badge>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <div className="grid grid-cols-2 gap-4 text-center">
+            {TEAMS.map((t)=> (
+              <div key={t} className="rounded-md p-3 text-white" style={{ backgroundColor: cup.teams[t].color }}>
+                <div className="font-medium">{cup.teams[t].name}</div>
+                <div className="text-3xl font-bold tabular-nums">{fmtPoints(score[t])}</div>
+                {cup.teams[t].captain && <div className="text-xs opacity-80">Captain: {name(cup.teams[t].captain)}</div>}
+              </div>
+            ))}
+          </div>
+          <div className="text-xs text-muted-foreground">{matches.length ? `${fmtPoints(toWin)} points to win, ${matches.length} match${matches.length !== 1 ? "es" : ""}` : "No matches yet: pairings count once each side's players are on opposite teams."}</div>
+
+          {editMode && (
+            <div className="space-y-2">
+              <div className="grid md:grid-cols-2 gap-2">
+                {TEAMS.map((t)=> <TeamEditor key={t} team={cup.teams[t]} participants={participants} onChange={(team)=>setTeam(t, team)} />)}
+              </div>
+              {unassigned.length > 0 && <div className="text-xs text-amber-700">Not on a team: {unassigned.map(name).join(", ")}</div>}
+              <Button variant="ghost" size="sm" onClick={()=>{ if (window.confirm(`Remove ${cup.name}? Match results typed in by hand stay on the rounds.`)) onChange(undefined); }}>Remove competition</Button>
+            </div>
+          )}
+
+          {matches.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm border border-slate-200 rounded-md">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="text-left p-2">Match</th>
+                    <th className="text-left p-2">Format</th>
+                    <th className="text-right p-2" style={{ color: cup.teams[0].color }}>{cup.teams[0].name}</th>
+                    <th className="text-center p-2">Result</th>
+                    <th className="text-left p-2" style={{ color: cup.teams[1].color }}>{cup.teams[1].name}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {matches.map((m)=> (
+                    <tr key={`${m.event.id}-${m.group.id}`} className="border-t">
+                      <td className="p-2 whitespace-nowrap">
+                        <a href={`#evt-${m.event.id}`} className="underline underline-offset-2">{m.event.round.course}</a>
+                        <div className="text-xs text-muted-foreground">{formatDateTime(m.group.teeTime, display)}</div>
+                      </td>
+                      <td className="p-2">{MATCH_FORMATS[m.format]}</td>
+                      <td className="p-2 text-right"><PlayersCell players={m.players[0]} participants={participants} /></td>
+                      <td className="p-2 text-center">
+                        {editMode && !m.fromScorecard ? <ResultSelect cup={cup} match={m} onChange={(r)=>onResult(m, r)} /> : <ResultCell cup={cup} match={m} />}
+                      </td>
+                      <td className="p-2"><PlayersCell players={m.players[1]} participants={participants} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </section>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Scale, Trash2 } from "lucide-react";
+import type { Currency, Expense, Itinerary } from "@/lib/types";
+import { CURRENCIES, expenseTarget, expensesTotal, fmtCurrency, newExpenseId, rateInHome, toHome, withRateInHome } from "@/lib/expenses";
+import { personName, rosterIds } from "@/lib/participants";
+import { dayZone, formatDayLabel } from "@/lib/format";
+
+// Radix Select can't use "" as an item value
+const NONE = "__none__";
+const CURRENCY_CODES = Object.keys(CURRENCIES) as Currency[];
+
+// Expenses hang off a day ("day:2025-09-07") or an event on it ("evt:2025-09-07:sun7-golf")
+const attachValue = (e: Pick<Expense, "dayId" | "eventId">) => (e.eventId ? `evt:${e.dayId}:${e.eventId}` : e.dayId ? `day:${e.dayId}` : NONE);
+function parseAttach(value: string): Pick<Expense, "dayId" | "eventId"> {
+  const [kind, dayId, eventId] = value.split(":");
+  if (kind === "evt") return { dayId, eventId };
+  if (kind === "day") return { dayId };
+  return {};
+}
+
+function attachedTo(itin: Itinerary, e: Expense): { label: string; eventId?: string } | null {
+  const { day, event } = expenseTarget(itin, e);
+  if (!day) return null;
+  const dayLabel = formatDayLabel(day, dayZone(itin, day));
+  return event ? { label: `${dayLabel} · ${event.title}`, eventId: event.id } : { label: dayLabel };
+}
+
+const blankExpense = (currency: Currency): Omit<Expense, "id"> => ({ description: "", amount: 0, currency, paidBy: "", splitAmong: [] });
+
+function ExpenseForm({ itin, onAdd }: { itin: Itinerary; onAdd: (e: Expense) => void }) {
+  const roster = rosterIds(itin.participants);
+  const name = (ref: string) => personName(itin.participants, ref);
+  const [draft, setDraft] = useState<Omit<Expense, "id">>(() => blankExpense("EUR"));
+  const valid = draft.description.trim() && draft.amount > 0 && draft.paidBy;
+  const toggle = (p: string) => setDraft({ ...draft, splitAmong: draft.splitAmong.includes(p) ? draft.splitAmong.filter((x)=>x!==p) : [...draft.splitAmong, p] });
+  const onSubmit = () => {
+    if (!valid) return;
+    onAdd({ id: newExpenseId(), ...draft, description: draft.description.trim() });
+    setDraft(blankExpense(draft.currency));
+  };
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input value={draft.description} onChange={(e)=>setDraft({ ...draft, description: e.target.value })} placeholder="Caddie fees, dinner, transfer…" className="flex-1 min-w-48" />
+        <Input type="number" min={0} step="0.01" value={draft.amount || ""} onChange={(e)=>setDraft({ ...draft, amount: Math.max(0, Number(e.target.value) || 0) })} placeholder="Amount" className="w-28" />
+        <Select value={draft.currency} onValueChange={(v)=>setDraft({ ...draft, currency: v as Currency })}>
+          <SelectTrigger size="sm"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {CURRENCY_CODES.map((c)=> <SelectItem key={c} value={c}>{CURRENCIES[c]} {c}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={draft.paidBy || NONE} onValueChange={(v)=>setDraft({ ...draft, paidBy: v === NONE ? "" : v })}>
+          <SelectTrigger size="sm"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Paid by…</SelectItem>
+            {roster.map((p)=> <SelectItem key={p} value={p}>{name(p)}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={attachValue(draft)} onValueChange={(v)=>setDraft({ ...draft, dayId: undefined, eventId: undefined, ...parseAttach(v) })}>
+          <SelectTrigger size="sm" className="max-w-64"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Whole trip</SelectItem>
+            {itin.days.map((d)=> (
+              <React.Fragment key={d.id}>
+                <SelectItem value={`day:${d.id}`}>{formatDayLabel(d, dayZone(itin, d))} — {d.city}</SelectItem>
+                {d.events.map((evt)=> <SelectItem key={evt.id} value={`evt:${d.id}:${evt.id}`}>↳ {evt.title}</SelectItem>)}
+              </React.Fragment>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex flex-wrap items-center gap-1 text-sm">
+        <span className="text-muted-foreground mr-1">Split among</span>
+        {roster.map((p)=> (
+          <Badge key={p} variant={draft.splitAmong.includes(p) ? "default" : "outline"} className="cursor-pointer" onClick={()=>toggle(p)}>{name(p)}</Badge>
+        ))}
+        <span className="text-xs text-muted-foreground ml-1">{draft.splitAmong.length ? `${draft.splitAmong.length} people` : "everyone"}</span>
+        <Button size="sm" className="ml-auto" onClick={onSubmit} disabled={!valid}><Plus className="h-4 w-4 mr-1"/>Add expense</Button>
+      </div>
+    </div>
+  );
+}
+
+interface ExpensesPanelProps {
+  tripId: string;
+  itin: Itinerary;
+  editMode: boolean;
+  setExpenses: (expenses: Expense[]) => void;
+}
+export function ExpensesPanel({ tripId, itin, editMode, setExpenses }: ExpensesPanelProps) {
+  const home = itin.homeCurrency;
+  const money = (n: number, c: Currency) => fmtCurrency(n, c, itin.locale);
+  const name = (ref: string) => personName(itin.participants, ref);
+  const dayOrder = (e: Expense) => { const { day } = expenseTarget(itin, e); return day ? itin.days.indexOf(day) : -1; };
+  const sorted = itin.expenses.map((e, i)=> ({ e, i })).sort((a, b)=> dayOrder(a.e) - dayOrder(b.e) || a.i - b.i).map((x)=>x.e);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-base">Shared expenses <span className="font-normal text-muted-foreground">· {money(expensesTotal(itin), home)}</span></CardTitle>
+        <Button asChild variant="outline" size="sm"><Link href={`/trips/${encodeURIComponent(tripId)}/balances`}><Scale className="h-4 w-4 mr-1"/>Balances</Link></Button>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {editMode && <ExpenseForm itin={itin} onAdd={(e)=>setExpenses([...itin.expenses, e])} />}
+        {sorted.length === 0 ? (
+          <p className="text-muted-foreground">No expenses yet.{editMode ? "" : " Turn on Edit to log one."}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="text-xs text-muted-foreground">
+                <tr>
+                  <th className="text-left p-1">For</th>
+                  <th className="text-left p-1">Paid by</th>
+                  <th className="text-right p-1">Amount</th>
+                  <th className="text-left p-1">Split</th>
+                  {editMode && <th></th>}
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.map((e)=> {
+                  const at = attachedTo(itin, e);
+                  return (
+                    <tr key={e.id} className="border-t align-top">
+                      <td className="p-1">
+                        <div className="font-medium">{e.description}</div>
+                        {at && <div className="text-xs text-muted-foreground">{at.eventId ? <a href={`#evt-${at.eventId}`} className="underline underline-offset-2">{at.label}</a> : at.label}</div>}
+                      </td>
+                      <td className="p-1">{name(e.paidBy)}</td>
+                      <td className="p-1 text-right tabular-nums whitespace-nowrap">
+                        {money(e.amount, e.currency)}
+                        {e.currency !== home && <div className="text-xs text-muted-foreground">≈ {money(toHome(e.amount, e.currency, itin), home)}</div>}
+                      </td>
+                      <td className="p-1 text-xs">{e.splitAmong.length ? e.splitAmong.map(name).join(", ") : "Everyone"}</td>
+                      {editMode && <td className="p-1 text-right"><Button variant="ghost" size="icon" onClick={()=>setExpenses(itin.expenses.filter((x)=>x.id!==e.id))} title="Remove expense"><Trash2 className="h-4 w-4"/></Button></td>}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// One field per foreign currency, in units of the home currency; committed on blur
+function RateInput({ value, onCommit }: { value: number; onCommit: (rate: number) => void }) {
+  const shown = String(Math.round(value * 10000) / 10000);
+  const [text, setText] = useState<string>(shown);
+  useEffect(() => setText(shown), [shown]);
+  const onBlur = () => {
+    const n = Number(text);
+    if (Number.isFinite(n) && n > 0 && text !== shown) onCommit(n); else setText(shown);
+  };
+  return <Input value={text} onChange={(e)=>setText(e.target.value)} onBlur={onBlur} inputMode="decimal" className="w-24" />;
+}
+
+interface ExchangeRatesPanelProps {
+  itin: Pick<Itinerary, "homeCurrency" | "exchangeRates">;
+  setRates: (patch: Pick<Itinerary, "homeCurrency" | "exchangeRates">) => void;
+}
+export function ExchangeRatesPanel({ itin, setRates }: ExchangeRatesPanelProps) {
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <span>Settle up in</span>
+        <Select value={itin.homeCurrency} onValueChange={(v)=>setRates({ homeCurrency: v as Currency, exchangeRates: itin.exchangeRates })}>
+          <SelectTrigger size="sm"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {CURRENCY_CODES.map((c)=> <SelectItem key={c} value={c}>{CURRENCIES[c]} {c}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+      {CURRENCY_CODES.filter((c)=>c!==itin.homeCurrency).map((c)=> (
+        <div key={c} className="flex items-center gap-2">
+          <span className="w-16">1 {c} =</span>
+          <RateInput value={rateInHome(c, itin)} onCommit={(rate)=>setRates({ homeCurrency: itin.homeCurrency, exchangeRates: withRateInHome(itin, c, rate) })} />
+          <span>{itin.homeCurrency}</span>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">Expenses in other currencies are converted at these rates when working out balances.</p>
+    </div>
+  );
+}
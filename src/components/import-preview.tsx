@@ -0,0 +1,114 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Check, X } from "lucide-react";
+import type { ChangeKind, FieldChange, ItineraryDiff } from "@/lib/diff";
+import { isEmptyDiff } from "@/lib/diff";
+
+export interface ImportState {
+  fileName: string;
+  diff?: ItineraryDiff;
+  error?: string;
+  issues?: string[];
+  warnings?: string[];
+}
+
+const KIND_VARIANT: Record<ChangeKind, "default" | "destructive" | "secondary"> = {
+  added: "default",
+  removed: "destructive",
+  changed: "secondary",
+};
+
+function FieldChanges({ changes }: { changes: FieldChange[] }) {
+  return (
+    <ul className="space-y-1 text-xs">
+      {changes.map((c) => (
+        <li key={c.field} className="grid grid-cols-[6rem_1fr] gap-2">
+          <span className="font-medium">{c.field}</span>
+          <span>
+            <span className="line-through text-muted-foreground">{c.before}</span>
+            {" → "}
+            <span>{c.after}</span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface ImportPreviewProps {
+  state: ImportState | null;
+  onAccept: () => void;
+  onReject: () => void;
+}
+export function ImportPreview({ state, onAccept, onReject }: ImportPreviewProps) {
+  const diff = state?.diff;
+  return (
+    <Sheet open={!!state} onOpenChange={(open)=>{ if (!open) onReject(); }}>
+      <SheetContent className="sm:max-w-xl w-full overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Import {state?.fileName}</SheetTitle>
+          <SheetDescription>
+            {state?.error ? "This file can't be imported." : "Review what will change before it replaces the current trip."}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 space-y-4 text-sm">
+          {state?.error && (
+            <div className="space-y-2">
+              <p className="text-destructive">{state.error}</p>
+              {state.issues && state.issues.length > 0 && (
+                <ul className="list-disc pl-6 font-mono text-xs">
+                  {state.issues.slice(0, 50).map((issue, i)=> <li key={i}>{issue}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {state?.warnings && state.warnings.length > 0 && (
+            <ul className="list-disc pl-6 text-xs text-amber-700">
+              {state.warnings.map((w, i)=> <li key={i}>{w}</li>)}
+            </ul>
+          )}
+
+          {diff && isEmptyDiff(diff) && <p className="text-muted-foreground">No differences — the file matches the current trip.</p>}
+
+          {diff && diff.trip.length > 0 && (
+            <div className="space-y-2">
+              <div className="font-medium">Trip</div>
+              <FieldChanges changes={diff.trip} />
+            </div>
+          )}
+
+          {diff?.days.map((d) => (
+            <div key={d.id} className="space-y-2 border-t pt-3">
+              <div className="flex items-center gap-2">
+                <Badge variant={KIND_VARIANT[d.kind]}>{d.kind}</Badge>
+                <span className="font-medium">{d.id}</span>
+                <span className="text-muted-foreground">{d.city}</span>
+              </div>
+              {d.changes.length > 0 && <FieldChanges changes={d.changes} />}
+              {d.events.map((e) => (
+                <div key={e.id} className="pl-4 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{e.kind}</Badge>
+                    <span>{e.title}</span>
+                  </div>
+                  {e.changes.length > 0 && <div className="pl-4"><FieldChanges changes={e.changes} /></div>}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <SheetFooter className="flex-row justify-end">
+          <Button variant="outline" onClick={onReject}><X className="h-4 w-4 mr-1"/>Reject</Button>
+          <Button disabled={!diff || isEmptyDiff(diff)} onClick={onAccept}><Check className="h-4 w-4 mr-1"/>Accept import</Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
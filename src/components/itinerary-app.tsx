@@ -0,0 +1,1548 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarDays, MapPin, Users, Download, Plus, Search, Printer, Edit3, RefreshCw, ExternalLink, Cloud, CloudOff, ArrowLeft, AlertTriangle, FileJson, Upload, Copy, Trash2, Globe, Flag, ArrowUp, ArrowDown, Minus, History, Undo2, Redo2 } from "lucide-react";
+import { motion } from "framer-motion";
+import type { DayPlan, EventItem, Itinerary, MatchOutcome, Participant, Leaderboard, LeaderboardEntry, LeaderboardSnapshot, LodgingItem, ReminderRule } from "@/lib/types";
+import Link from "next/link";
+import { SEED_TRIP_ID, seedData } from "@/lib/seed-data";
+import { fetchTripWithRevision, newClientId, saveTrip, sendOps, subscribeToTrip } from "@/lib/trip-api";
+import { applyOps, diffOps, type Conflict } from "@/lib/operations";
+import type { Viewer } from "@/lib/trip-events";
+import { blankItinerary } from "@/lib/trips";
+import { downloadICS } from "@/lib/ics";
+import { mergeICS, parseICS } from "@/lib/ics-import";
+import { computedSubtitle, dayZone, formatDateTime, formatDayLabel, tripZone, type ZoneContext } from "@/lib/format";
+import { MigrationError, migrateItinerary } from "@/lib/migrations";
+import { diffItineraries } from "@/lib/diff";
+import * as ops from "@/lib/itinerary-ops";
+import { browserTimeZone, fromZonedInputValue, isValidLocale, isValidTimeZone, toZonedInputValue, zoneAbbreviation, zonedDateKey } from "@/lib/timezone";
+import { titleTimeMismatch } from "@/lib/title-time";
+import { newParticipantId, participantLabel, personName, personalDays, rosterIds } from "@/lib/participants";
+import { AttendancePanel, HeadcountBadge } from "@/components/attendance";
+import { slugify } from "@/lib/utils";
+import { ImportPreview, type ImportState } from "@/components/import-preview";
+import { RoundPairings } from "@/components/round-pairings";
+import { RoundBreakdownList, ScorecardSheet } from "@/components/scorecard";
+import { toNumber, tripBreakdowns } from "@/lib/scoring";
+import { emptyRound } from "@/lib/golf-round";
+import { cupMatches, cupScore, defaultCup, pointsToWin, unassignedPlayers, type CupMatch } from "@/lib/cup";
+import { CupScoreBadge, CupSection } from "@/components/cup";
+import { balances, ledgerLines, settleUp } from "@/lib/ledger";
+import { LedgerSection } from "@/components/ledger";
+import { ExchangeRatesPanel, ExpensesPanel } from "@/components/expenses";
+import { ReconcileNamesPanel } from "@/components/reconcile-names";
+import { PersonalTeeTime, ViewAsSelect, ViewingAsBar } from "@/components/personal";
+import { computedHistory, movements, placeLabel, previousStandings, rankRows, savedHistory, timeline, withSnapshot, type Movement, type StandingsPoint } from "@/lib/standings";
+import { BOARD_SORTS, BOARD_SOURCES, boardRows, emptyBoard, formatBoardDelta, formatBoardScore } from "@/lib/leaderboards";
+import { BoardSettings } from "@/components/board-settings";
+import { PresenceBadge } from "@/components/presence";
+import { ConflictSheet } from "@/components/conflicts";
+import { ChangeHistory } from "@/components/change-history";
+import { EMPTY_UNDO, recordEdit, redoEdit, undoEdit, type UndoStack } from "@/lib/history";
+import { StandingsChart } from "@/components/standings-chart";
+
+// --------------------
+// Constants & Helpers
+// --------------------
+const STORAGE_KEY = "golfTripItinerary_v1";
+const SAVE_DEBOUNCE_MS = 600;
+const HOME_ZONE_KEY = "golfTripShowHomeZone";
+const VIEW_AS_KEY = "golfTripViewAs";
+
+type SyncStatus = "loading" | "saving" | "synced" | "offline";
+
+// The seed trip keeps the original single-trip key so existing browser copies still load
+function storageKey(tripId: string): string {
+  return tripId === SEED_TRIP_ID ? STORAGE_KEY : `${STORAGE_KEY}:${tripId}`;
+}
+function starterItinerary(tripId: string, title: string): Itinerary {
+  return tripId === SEED_TRIP_ID ? seedData : blankItinerary(title);
+}
+interface LoadFailure {
+  error: MigrationError;
+  raw: unknown;
+}
+function migrateOrError(raw: unknown): Itinerary | MigrationError {
+  try {
+    return migrateItinerary(raw);
+  } catch (err) {
+    if (err instanceof MigrationError) return err;
+    throw err;
+  }
+}
+function downloadJSON(data: unknown, fileName: string): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Raw browser copy; run it through migrateItinerary before use
+function readLocalRaw(tripId: string): unknown | null {
+  try {
+    const raw = localStorage.getItem(storageKey(tripId));
+    return raw ? (JSON.parse(raw) as unknown) : null;
+  } catch {
+    return null;
+  }
+}
+function writeLocalItinerary(tripId: string, itin: Itinerary): void {
+  try { localStorage.setItem(storageKey(tripId), JSON.stringify(itin)); } catch { /* ignore */ }
+}
+
+// The server's copy as this browser last saw it, so edits made offline can still be sent as
+// operations and merged when the page comes back
+interface SyncBase {
+  itin: Itinerary;
+  revision: number;
+}
+function readLocalBase(tripId: string): SyncBase | null {
+  try {
+    const raw = localStorage.getItem(`${storageKey(tripId)}:base`);
+    if (!raw) return null;
+    const { itin, revision } = JSON.parse(raw) as { itin: unknown; revision: number };
+    const migrated = migrateOrError(itin);
+    return migrated instanceof MigrationError ? null : { itin: migrated, revision };
+  } catch {
+    return null;
+  }
+}
+function writeLocalBase(tripId: string, base: SyncBase): void {
+  try { localStorage.setItem(`${storageKey(tripId)}:base`, JSON.stringify(base)); } catch { /* ignore */ }
+}
+
+function openMaps(query: string): void {
+  if (!query) return;
+  window.open(`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}`, "_blank");
+}
+function openURL(url?: string): void {
+  if (!url) return;
+  window.open(url, "_blank", "noopener");
+}
+
+// Pure helper (testable) — filters days by a text query
+function filterDays(days: DayPlan[], query: string): DayPlan[] {
+  if (!query || !query.trim()) return days;
+  const q = query.toLowerCase();
+  return days
+    .map((d) => ({
+      ...d,
+      events: d.events.filter((e) => [
+        e.title || "",
+        e.location || "",
+        e.notes || "",
+        ...(e.tags || []),
+      ].join(" ").toLowerCase().includes(q)),
+    }))
+    .filter((d) => d.events.length > 0);
+}
+
+// --------------------
+// UI Components
+// --------------------
+interface HeaderBarProps {
+  title: string;
+  subtitle: string;
+  syncStatus: SyncStatus;
+  onPrint: () => void;
+  onHistory: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onExportAll: () => void; // FIXED: single prop name
+  onExportJSON: () => void;
+  onImportFile: (file: File) => void;
+  search: string;
+  setSearch: (v: string) => void;
+  editMode: boolean;
+  setEditMode: (v: boolean) => void;
+  showHomeZone: boolean;
+  setShowHomeZone: (v: boolean) => void;
+  cupScore?: React.ReactNode;
+  viewAs?: React.ReactNode;
+  presence?: React.ReactNode;
+}
+function HeaderBar({ title, subtitle, cupScore, viewAs, presence, syncStatus, onPrint, onHistory, onUndo, onRedo, canUndo, canRedo, onExportAll, onExportJSON, onImportFile, search, setSearch, editMode, setEditMode, showHomeZone, setShowHomeZone }: HeaderBarProps) {
+  const onSearch = (e: React.ChangeEvent<HTMLInputElement>) => setSearch(e.target.value);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const onPickImport = () => fileInput.current?.click();
+  const onFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // allow re-importing the same file
+    if (file) onImportFile(file);
+  };
+  return (
+    <div className="sticky top-0 z-40 backdrop-blur bg-white/70 border-b">
+      <input ref={fileInput} type="file" accept="application/json,.json,text/calendar,.ics" className="hidden" onChange={onFile} />
+      <div className="max-w-6xl mx-auto px-4 py-3 flex items-center gap-2">
+        <Link href="/" title="All trips"><CalendarDays className="h-6 w-6" /></Link>
+        <div className="flex-1">
+          <div className="text-xl font-semibold leading-tight">{title}</div>
+          <div className="text-sm text-muted-foreground flex flex-wrap items-center gap-2">{subtitle}{cupScore}</div>
+        </div>
+        {editMode && (
+          <div className="flex items-center">
+            <Button variant="ghost" size="icon" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)"><Undo2 className="h-4 w-4"/></Button>
+            <Button variant="ghost" size="icon" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)"><Redo2 className="h-4 w-4"/></Button>
+          </div>
+        )}
+        {presence}
+        <SyncBadge status={syncStatus} />
+        <div className="hidden md:flex items-center gap-2">
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input value={search} onChange={onSearch} placeholder="Search events, places…" className="pl-8 w-64" />
+          </div>
+          {viewAs}
+          <div className="flex items-center gap-2">
+            <div className="flex items-center gap-2 px-2">
+              <Edit3 className="h-4 w-4" />
+              <Switch checked={editMode} onCheckedChange={setEditMode} />
+              <span className="text-sm">Edit</span>
+            </div>
+            <div className="flex items-center gap-2 px-2" title="Show times in my home time zone">
+              <Globe className="h-4 w-4" />
+              <Switch checked={showHomeZone} onCheckedChange={setShowHomeZone} />
+              <span className="text-sm">My time</span>
+            </div>
+            <Button variant="outline" onClick={onPrint}><Printer className="h-4 w-4 mr-1"/>Print</Button>
+            <Button variant="outline" onClick={onExportAll}><Download className="h-4 w-4 mr-1"/>Export .ics</Button>
+            <Button variant="outline" onClick={onExportJSON}><FileJson className="h-4 w-4 mr-1"/>Export trip (.json)</Button>
+            <Button variant="outline" onClick={onPickImport}><Upload className="h-4 w-4 mr-1"/>Import trip</Button>
+            <Button variant="secondary" onClick={onHistory}><History className="h-4 w-4 mr-1"/>History</Button>
+          </div>
+        </div>
+      </div>
+      <div className="md:hidden px-4 pb-3 flex gap-2">
+        <Input value={search} onChange={onSearch} placeholder="Search events, places…" />
+        {viewAs}
+        <Button variant="outline" onClick={onExportAll}><Download className="h-4 w-4"/></Button>
+        <Button variant="outline" onClick={onExportJSON} title="Export trip (.json)"><FileJson className="h-4 w-4"/></Button>
+        <Button variant="outline" onClick={onPickImport} title="Import trip"><Upload className="h-4 w-4"/></Button>
+        <Button variant="outline" onClick={onPrint}><Printer className="h-4 w-4"/></Button>
+        <Button variant="secondary" onClick={onHistory} title="History"><History className="h-4 w-4"/></Button>
+      </div>
+    </div>
+  );
+}
+
+const SYNC_LABELS: Record<SyncStatus, string> = {
+  loading: "Loading…",
+  saving: "Saving…",
+  synced: "Saved",
+  offline: "Offline — saved locally",
+};
+function SyncBadge({ status }: { status: SyncStatus }) {
+  return (
+    <Badge variant={status === "offline" ? "destructive" : "outline"} className="gap-1">
+      {status === "offline" ? <CloudOff className="h-3 w-3"/> : <Cloud className="h-3 w-3"/>}
+      {SYNC_LABELS[status]}
+    </Badge>
+  );
+}
+
+interface DayOption {
+  id: string;
+  label: string;
+}
+
+// Start/end pickers in the trip's zone; changing the start keeps the event's duration
+interface TimeRangeEditorProps {
+  start: string;
+  end: string;
+  timeZone: string;
+  onChange: (start: string, end: string) => void;
+}
+function TimeRangeEditor({ start, end, timeZone, onChange }: TimeRangeEditorProps) {
+  const [draftStart, setDraftStart] = useState<string>(toZonedInputValue(start, timeZone));
+  const [draftEnd, setDraftEnd] = useState<string>(toZonedInputValue(end, timeZone));
+  const [error, setError] = useState<string>("");
+  useEffect(() => { setDraftStart(toZonedInputValue(start, timeZone)); setDraftEnd(toZonedInputValue(end, timeZone)); setError(""); }, [start, end, timeZone]);
+
+  const commit = (nextStart: string, nextEnd: string) => {
+    if (!nextStart || !nextEnd) { setError("Enter both a start and an end time"); return; }
+    if (new Date(nextEnd).getTime() <= new Date(nextStart).getTime()) { setError("End must be after start"); return; }
+    setError("");
+    onChange(nextStart, nextEnd);
+  };
+  const onStart = (x: React.ChangeEvent<HTMLInputElement>) => {
+    setDraftStart(x.target.value);
+    const nextStart = fromZonedInputValue(x.target.value, timeZone);
+    const duration = new Date(end).getTime() - new Date(start).getTime();
+    const nextEnd = nextStart && duration > 0 ? new Date(new Date(nextStart).getTime() + duration).toISOString() : fromZonedInputValue(draftEnd, timeZone);
+    if (nextEnd) setDraftEnd(toZonedInputValue(nextEnd, timeZone));
+    commit(nextStart, nextEnd);
+  };
+  const onEnd = (x: React.ChangeEvent<HTMLInputElement>) => {
+    setDraftEnd(x.target.value);
+    commit(fromZonedInputValue(draftStart, timeZone), fromZonedInputValue(x.target.value, timeZone));
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input type="datetime-local" value={draftStart} onChange={onStart} className="w-auto" aria-label="Start" />
+        <span>→</span>
+        <Input type="datetime-local" value={draftEnd} onChange={onEnd} className="w-auto" aria-label="End" />
+        <span className="text-xs text-muted-foreground">{zoneAbbreviation(start, timeZone)} ({timeZone})</span>
+      </div>
+      {error && <div className="text-xs text-destructive">{error}</div>}
+    </div>
+  );
+}
+
+interface EventCardProps {
+  event: EventItem;
+  editMode: boolean;
+  timeZone: string;      // zone the event happens in (editing, title checks)
+  display: ZoneContext;  // zone times are shown in (the trip's, or the viewer's home zone)
+  dateMismatch: string | null; // local date the event starts on when that isn't its day
+  participants: Participant[];
+  viewAs?: Participant; // shows their tee time
+  dayId: string;
+  dayOptions: DayOption[];
+  onUpdate: (updated: EventItem) => void;
+  onDelete: () => void;
+  onDuplicate: () => void;
+  onMove: (toDayId: string) => void;
+  onExport: (evt: EventItem) => void;
+}
+function EventCard({ event, editMode, timeZone, display, dateMismatch, participants, viewAs, dayId, dayOptions, onUpdate, onDelete, onDuplicate, onMove, onExport }: EventCardProps) {
+  const [e, setE] = useState<EventItem>(event);
+  useEffect(() => setE(event), [event]);
+
+  function handleChange<K extends keyof EventItem>(key: K, val: EventItem[K]) {
+    const updated = { ...e, [key]: val } as EventItem;
+    setE(updated);
+    onUpdate(updated);
+  }
+
+  const onTitle = (x: React.ChangeEvent<HTMLInputElement>) => handleChange("title", x.target.value);
+  const onLocation = (x: React.ChangeEvent<HTMLInputElement>) => handleChange("location", x.target.value);
+  const onNotes = (x: React.ChangeEvent<HTMLTextAreaElement>) => handleChange("notes", x.target.value);
+  const onDeleteClick = () => { if (window.confirm(`Delete “${e.title}”?`)) onDelete(); };
+  const onTimes = (start: string, end: string) => {
+    const updated = { ...e, start, end };
+    setE(updated);
+    onUpdate(updated);
+  };
+  const titleTime = titleTimeMismatch(e, timeZone);
+  const onAttendance = (updated: EventItem) => { setE(updated); onUpdate(updated); };
+
+  return (
+    <Card id={`evt-${e.id}`} className="border-muted/40 scroll-mt-24">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base font-semibold flex items-start justify-between gap-2">
+          {editMode ? (<Input value={e.title} onChange={onTitle} />) : (<span>{e.title}</span>)}
+          <div className="shrink-0 flex items-center gap-2">
+            <HeadcountBadge event={e} participants={participants} dayId={dayId} />
+            {e.url && <Button variant="outline" size="icon" onClick={()=>openURL(e.url)} title="Open course site"><ExternalLink className="h-4 w-4"/></Button>}
+            <Button variant="outline" size="icon" onClick={()=>onExport(e)} title="Export single event"><Download className="h-4 w-4"/></Button>
+            {e.mapQuery && <Button variant="outline" size="icon" onClick={()=>openMaps(e.mapQuery!)} title="Open in Maps"><MapPin className="h-4 w-4"/></Button>}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {editMode ? (
+          <div className="text-sm flex items-start gap-2"><CalendarDays className="h-4 w-4 mt-2.5"/><TimeRangeEditor start={e.start} end={e.end} timeZone={timeZone} onChange={onTimes} /></div>
+        ) : (
+          <div className="text-sm flex items-center gap-2">
+            <CalendarDays className="h-4 w-4"/> <span>{formatDateTime(e.start, display)}</span> → <span>{formatDateTime(e.end, display)}</span>
+            {display.timeZone !== timeZone && <span className="text-xs text-muted-foreground">{zoneAbbreviation(e.start, display.timeZone)}</span>}
+          </div>
+        )}
+        {dateMismatch && (
+          <div className="text-xs flex items-center gap-1 text-amber-700"><AlertTriangle className="h-3 w-3"/>Starts on {dateMismatch}, not on this day</div>
+        )}
+        {titleTime && (
+          <div className="text-xs flex items-center gap-1 text-amber-700"><AlertTriangle className="h-3 w-3"/>Title says {titleTime}, but the event starts {formatDateTime(e.start, { ...display, timeZone })}</div>
+        )}
+        <div className="text-sm flex items-start gap-2"><MapPin className="h-4 w-4 mt-0.5"/>{editMode ? (<Input value={e.location} onChange={onLocation} />) : (<span>{e.location}</span>)}</div>
+        {e.tags && <div className="flex flex-wrap gap-1">{e.tags.map((t)=> (<Badge key={t} variant="outline">{t}</Badge>))}</div>}
+        {viewAs && <PersonalTeeTime event={e} participant={viewAs} participants={participants} display={display} />}
+        <AttendancePanel event={e} participants={participants} dayId={dayId} editMode={editMode} onChange={onAttendance} />
+        {e.round && <RoundPairings round={e.round} participants={participants} editMode={editMode} timeZone={timeZone} display={display} eventStart={e.start} onChange={(round)=>handleChange("round", round)} />}
+        {e.round && <ScorecardSheet event={{ ...e, round: e.round }} participants={participants} editMode={editMode} onChange={(round)=>handleChange("round", round)} />}
+        {editMode ? (<Textarea value={e.notes||""} onChange={onNotes} placeholder="Notes" />) : (e.notes && <p className="text-sm text-muted-foreground">{e.notes}</p>)}
+        {editMode && (
+          <div className="flex flex-wrap items-center gap-2 pt-1">
+            <Select value={dayId} onValueChange={onMove}>
+              <SelectTrigger size="sm" title="Move to day"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {dayOptions.map((d)=> (<SelectItem key={d.id} value={d.id}>{d.label}</SelectItem>))}
+              </SelectContent>
+            </Select>
+            {!e.round && <Button variant="outline" size="sm" onClick={()=>handleChange("round", emptyRound(e))}><Flag className="h-4 w-4 mr-1"/>Add tee times</Button>}
+            <Button variant="outline" size="sm" onClick={onDuplicate}><Copy className="h-4 w-4 mr-1"/>Duplicate</Button>
+            <Button variant="outline" size="sm" onClick={onDeleteClick}><Trash2 className="h-4 w-4 mr-1"/>Delete</Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface DayCardProps {
+  day: DayPlan;
+  editMode: boolean;
+  zone: ZoneContext;     // the day's own zone
+  display: ZoneContext;  // zone event times are shown in
+  dayOptions: DayOption[];
+  onUpdateEvent: (dayId: string, evtId: string, updated: EventItem) => void;
+  onUpdateDay: (dayId: string, patch: Partial<DayPlan>) => void;
+  onAddEvent: (dayId: string) => void;
+  onDeleteEvent: (dayId: string, evtId: string) => void;
+  onDuplicateEvent: (dayId: string, evtId: string) => void;
+  onMoveEvent: (dayId: string, evtId: string, toDayId: string) => void;
+  onChangeDate: (dayId: string, newId: string) => boolean;
+  onRemoveDay: (dayId: string) => void;
+  onExportEvent: (evt: EventItem) => void;
+  participants: Participant[];
+  viewAs?: Participant;
+}
+function DayCard({ day, editMode, zone, display, dayOptions, onUpdateEvent, onUpdateDay, onAddEvent, onDeleteEvent, onDuplicateEvent, onMoveEvent, onChangeDate, onRemoveDay, onExportEvent, participants, viewAs }: DayCardProps) {
+  const [note, setNote] = useState<string>(day.notes || "");
+  useEffect(()=>{ setNote(day.notes || ""); }, [day.notes]);
+
+  const onChangeNote = (e: React.ChangeEvent<HTMLTextAreaElement>) => setNote(e.target.value);
+  const onBlurNote = () => { if (note !== (day.notes || "")) onUpdateDay(day.id, { notes: note }); };
+  const [tz, setTz] = useState<string>(day.timeZone || "");
+  useEffect(()=>{ setTz(day.timeZone || ""); }, [day.timeZone]);
+  const tzValid = !tz.trim() || isValidTimeZone(tz.trim());
+  const onChangeTz = (e: React.ChangeEvent<HTMLInputElement>) => setTz(e.target.value);
+  const onBlurTz = () => { if (tzValid && tz.trim() !== (day.timeZone || "")) onUpdateDay(day.id, { timeZone: tz.trim() || undefined }); };
+  const [city, setCity] = useState<string>(day.city);
+  useEffect(()=>{ setCity(day.city); }, [day.city]);
+  const onBlurCity = () => { if (city !== day.city) onUpdateDay(day.id, { city }); };
+  const [dateError, setDateError] = useState<string>("");
+  const onDate = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const next = e.target.value;
+    if (!next || next === day.id) { setDateError(""); return; }
+    setDateError(onChangeDate(day.id, next) ? "" : `There is already a day on ${next}`);
+  };
+  const onRemoveClick = () => {
+    const what = day.events.length ? ` and its ${day.events.length} event${day.events.length!==1?'s':''}` : "";
+    if (window.confirm(`Remove ${day.id}${what}?`)) onRemoveDay(day.id);
+  };
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.3 }}>
+      <Card className="shadow-sm">
+        <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Badge variant="secondary">{formatDayLabel(day, zone)}</Badge>
+              {editMode ? (
+                <>
+                  <Input type="date" value={day.id} onChange={onDate} className="w-auto" aria-label="Date" />
+                  <Input value={city} onChange={(e)=>setCity(e.target.value)} onBlur={onBlurCity} placeholder="City" />
+                </>
+              ) : (
+                <span className="font-normal text-muted-foreground">{day.city}</span>
+              )}
+            </CardTitle>
+            {dateError && <div className="text-xs text-destructive mt-1">{dateError}</div>}
+          </div>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            {day.events.length} event{day.events.length!==1?'s':''}
+            {editMode && <Button variant="outline" size="sm" onClick={()=>onAddEvent(day.id)}><Plus className="h-4 w-4 mr-1"/>Add event</Button>}
+            {editMode && <Button variant="outline" size="sm" onClick={onRemoveClick} title="Remove day"><Trash2 className="h-4 w-4"/></Button>}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {editMode ? (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Day Notes</label>
+              <Textarea value={note} onChange={onChangeNote} onBlur={onBlurNote} placeholder="Logistics, reminders, etc." />
+              <label className="text-sm font-medium">Time zone (leave blank to use the trip&apos;s)</label>
+              <Input value={tz} onChange={onChangeTz} onBlur={onBlurTz} list="time-zones" placeholder={zone.timeZone} aria-invalid={!tzValid} />
+            </div>
+          ) : (
+            day.notes && <p className="text-sm text-muted-foreground whitespace-pre-line">{day.notes}</p>
+          )}
+
+          <div className="grid md:grid-cols-2 gap-4">
+            {day.events.map((evt) => (
+              <EventCard
+                key={evt.id}
+                event={evt}
+                editMode={editMode}
+                timeZone={zone.timeZone}
+                display={display}
+                dateMismatch={ops.eventDateMismatch(day, evt, zone.timeZone)}
+                participants={participants}
+                viewAs={viewAs}
+                dayId={day.id}
+                dayOptions={dayOptions}
+                onUpdate={(updated)=>onUpdateEvent(day.id, evt.id, updated)}
+                onDelete={()=>onDeleteEvent(day.id, evt.id)}
+                onDuplicate={()=>onDuplicateEvent(day.id, evt.id)}
+                onMove={(toDayId)=>onMoveEvent(day.id, evt.id, toDayId)}
+                onExport={onExportEvent}
+              />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
+
+// Handicap index, saved on blur; blank clears it
+function HandicapInput({ value, onCommit }: { value?: number; onCommit: (index: number | undefined) => void }) {
+  const [text, setText] = useState<string>(value === undefined ? "" : String(value));
+  useEffect(()=>{ setText(value === undefined ? "" : String(value)); }, [value]);
+  const parsed = text.trim() === "" ? undefined : Number(text);
+  const valid = parsed === undefined || !isNaN(parsed);
+  const onBlur = () => { if (valid && parsed !== value) onCommit(parsed); };
+  return <Input value={text} onChange={(e)=>setText(e.target.value)} onBlur={onBlur} inputMode="decimal" placeholder="HI" title="Handicap index" aria-invalid={!valid} className="w-16 h-7 bg-white" />;
+}
+
+// Profile text field, saved on blur
+function ProfileInput({ value, onCommit, ...props }: { value: string; onCommit: (v: string) => void } & Omit<React.ComponentProps<typeof Input>, "value" | "onChange" | "onBlur">) {
+  const [text, setText] = useState<string>(value);
+  useEffect(()=>{ setText(value); }, [value]);
+  return <Input {...props} value={text} onChange={(e)=>setText(e.target.value)} onBlur={()=>{ if (text !== value) onCommit(text); }} />;
+}
+
+// Blank clears an optional profile field
+const optional = (v: string) => v.trim() || undefined;
+
+function ParticipantRow({ person, onChange, onRemove }: { person: Participant; onChange: (p: Participant) => void; onRemove: () => void }) {
+  const [open, setOpen] = useState<boolean>(false);
+  const set = (patch: Partial<Participant>) => onChange({ ...person, ...patch });
+  return (
+    <div className="rounded-md bg-secondary p-2 space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <Users className="h-4 w-4 shrink-0"/>
+        <ProfileInput value={person.name} onCommit={(name)=>set({ name: name.trim() })} placeholder="Name (spot not filled yet)" className="h-7 bg-white" />
+        <HandicapInput value={person.handicap} onCommit={(handicap)=>set({ handicap })} />
+        <Button size="sm" variant="ghost" onClick={()=>setOpen(!open)}>{open ? "Less" : "Profile"}</Button>
+        <Button size="sm" variant="ghost" onClick={onRemove}>Remove</Button>
+      </div>
+      {open && (
+        <div className="grid grid-cols-2 gap-2 pl-6">
+          <ProfileInput type="email" value={person.email ?? ""} onCommit={(v)=>set({ email: optional(v) })} placeholder="Email" className="h-7 bg-white" />
+          <ProfileInput type="tel" value={person.phone ?? ""} onCommit={(v)=>set({ phone: optional(v) })} placeholder="Phone" className="h-7 bg-white" />
+          <label className="text-xs text-muted-foreground">Arrives
+            <Input type="date" value={person.arrival ?? ""} onChange={(e)=>set({ arrival: optional(e.target.value) })} className="h-7 bg-white" />
+          </label>
+          <label className="text-xs text-muted-foreground">Departs
+            <Input type="date" value={person.departure ?? ""} onChange={(e)=>set({ departure: optional(e.target.value) })} className="h-7 bg-white" />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface PeoplePanelProps {
+  list: Participant[];
+  setList: (list: Participant[]) => void;
+  removeParticipant: (id: string) => void; // scores and debts fall back to the name as text
+}
+function PeoplePanel({ list, setList, removeParticipant }: PeoplePanelProps) {
+  const [name, setName] = useState<string>("");
+  const onAdd = () => { if(!name.trim()) return; setList([...list, { id: newParticipantId(), name: name.trim() }]); setName(""); };
+  const onRemove = (p: Participant) => { if (window.confirm(`Remove ${p.name.trim() || "this spot"} from the trip?`)) removeParticipant(p.id); };
+  const onChange = (e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value);
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input value={name} onChange={onChange} placeholder="Add participant"/>
+        <Button onClick={onAdd}><Plus className="h-4 w-4 mr-1"/>Add</Button>
+      </div>
+      <div className="space-y-2">
+        {list.map((p)=> (
+          <ParticipantRow key={p.id} person={p} onChange={(next)=>setList(list.map((x)=>x.id===p.id ? next : x))} onRemove={()=>onRemove(p)} />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">{list.length} on the trip. HI is the handicap index used for net scoring.</p>
+    </div>
+  );
+}
+
+interface TripZonePanelProps {
+  zone: ZoneContext;
+  setZone: (zone: ZoneContext) => void;
+}
+function TripZonePanel({ zone, setZone }: TripZonePanelProps) {
+  const [timeZone, setTimeZone] = useState<string>(zone.timeZone);
+  const [locale, setLocale] = useState<string>(zone.locale);
+  useEffect(()=>{ setTimeZone(zone.timeZone); setLocale(zone.locale); }, [zone.timeZone, zone.locale]);
+  const tzValid = isValidTimeZone(timeZone.trim());
+  const localeValid = isValidLocale(locale.trim());
+  const onBlur = () => {
+    if (!tzValid || !localeValid) return;
+    if (timeZone.trim() !== zone.timeZone || locale.trim() !== zone.locale) setZone({ timeZone: timeZone.trim(), locale: locale.trim() });
+  };
+  return (
+    <div className="space-y-2 text-sm">
+      <Input value={timeZone} onChange={(e)=>setTimeZone(e.target.value)} onBlur={onBlur} list="time-zones" placeholder="Europe/Dublin" aria-invalid={!tzValid} />
+      <Input value={locale} onChange={(e)=>setLocale(e.target.value)} onBlur={onBlur} placeholder="en-US" aria-invalid={!localeValid} />
+      {(!tzValid || !localeValid) && <div className="text-xs text-destructive">{!tzValid ? "Unknown time zone" : "Unknown locale"}</div>}
+      <p className="text-xs text-muted-foreground">Times are entered and shown in this zone. Days can override it for trips that cross zones.</p>
+    </div>
+  );
+}
+
+interface RemindersPanelProps {
+  reminders: ReminderRule[];
+  setReminders: (reminders: ReminderRule[]) => void;
+}
+function RemindersPanel({ reminders, setReminders }: RemindersPanelProps) {
+  const [tag, setTag] = useState<string>("");
+  const [minutes, setMinutes] = useState<string>("60");
+  const onAdd = () => {
+    const m = parseInt(minutes, 10);
+    if (!tag.trim() || isNaN(m) || m < 0) return;
+    setReminders([...reminders, { tag: tag.trim(), minutesBefore: m }]);
+    setTag("");
+  };
+  const onRemove = (i: number) => setReminders(reminders.filter((_, idx)=>idx!==i));
+  return (
+    <div className="space-y-2 text-sm">
+      {reminders.map((r, i)=> (
+        <div key={`${r.tag}-${i}`} className="flex items-center justify-between gap-2">
+          <span><Badge variant="outline">{r.tag}</Badge> {r.minutesBefore} min before</span>
+          <Button size="sm" variant="ghost" onClick={()=>onRemove(i)}>Remove</Button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Input value={tag} onChange={(e)=>setTag(e.target.value)} placeholder="Tag, e.g. golf" />
+        <Input value={minutes} onChange={(e)=>setMinutes(e.target.value)} type="number" min={0} className="w-24" aria-label="Minutes before" />
+        <Button onClick={onAdd}><Plus className="h-4 w-4 mr-1"/>Add</Button>
+      </div>
+      <p className="text-xs text-muted-foreground">Exported calendar events carrying the tag get an alert this long before they start.</p>
+    </div>
+  );
+}
+
+// Live webcal:// subscription, optionally limited to one participant's events
+const EVERYONE = "__everyone__";
+interface CalendarFeedPanelProps {
+  tripId: string;
+  participants: Participant[];
+}
+function CalendarFeedPanel({ tripId, participants }: CalendarFeedPanelProps) {
+  const [who, setWho] = useState<string>(EVERYONE);
+  const [origin, setOrigin] = useState<string>("");
+  const [copied, setCopied] = useState<boolean>(false);
+  useEffect(() => { setOrigin(window.location.origin); }, []);
+  // By id, so subscribed calendars keep working when someone is renamed
+  const query = who === EVERYONE ? "" : `?participant=${encodeURIComponent(who)}`;
+  const httpURL = `${origin}/api/trips/${encodeURIComponent(tripId)}/calendar.ics${query}`;
+  const webcalURL = httpURL.replace(/^https?:/, "webcal:");
+  const onCopy = async () => {
+    try { await navigator.clipboard.writeText(webcalURL); setCopied(true); setTimeout(()=>setCopied(false), 2000); } catch { /* ignore */ }
+  };
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={who} onValueChange={setWho}>
+        <SelectTrigger><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={EVERYONE}>Everyone&apos;s events</SelectItem>
+          {participants.filter((p)=>p.name.trim()).map((p)=> (<SelectItem key={p.id} value={p.id}>{p.name}&apos;s events</SelectItem>))}
+        </SelectContent>
+      </Select>
+      <Button asChild variant="outline"><a href={webcalURL}><CalendarDays className="h-4 w-4 mr-1"/>Subscribe to calendar</a></Button>
+      <Button variant="ghost" onClick={onCopy}><Copy className="h-4 w-4 mr-1"/>{copied ? "Copied" : "Copy feed link"}</Button>
+    </div>
+  );
+}
+
+interface LodgingPanelProps {
+  lodging: LodgingItem[];
+  editMode: boolean;
+  setLodging: (items: LodgingItem[]) => void;
+}
+function LodgingPanel({ lodging, editMode, setLodging }: LodgingPanelProps) {
+  function updateItem<K extends keyof LodgingItem>(idx: number, key: K, val: LodgingItem[K]) {
+    const copy = lodging.map((x, i)=> i===idx ? { ...x, [key]: val } : x);
+    setLodging(copy);
+  }
+  const onName = (idx: number) => (e: React.ChangeEvent<HTMLInputElement>) => updateItem(idx, "name", e.target.value);
+  const onCity = (idx: number) => (e: React.ChangeEvent<HTMLInputElement>) => updateItem(idx, "city", e.target.value);
+  const onNights = (idx: number) => (e: React.ChangeEvent<HTMLInputElement>) => updateItem(idx, "nights", e.target.value);
+  return (
+    <div className="grid md:grid-cols-3 gap-3">
+      {lodging.map((l, idx)=> (
+        <Card key={idx}>
+          <CardHeader>
+            <CardTitle className="text-base">
+              {editMode ? <Input value={l.name} onChange={onName(idx)} /> : l.name}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div><span className="font-medium">City:</span> {editMode ? <Input value={l.city} onChange={onCity(idx)} /> : l.city}</div>
+            <div><span className="font-medium">Nights:</span> {editMode ? <Input value={l.nights} onChange={onNights(idx)} /> : l.nights}</div>
+            <Button variant="outline" onClick={()=>openMaps(`${l.name} ${l.city}`)}><ExternalLink className="h-4 w-4 mr-1"/>Map</Button>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+// NEW: Optional Travel Notes panel (kept from your original)
+interface TravelNotesPanelProps {
+  tips: string[];
+  setTips: (tips: string[]) => void;
+  editMode: boolean;
+}
+function TravelNotesPanel({ tips, setTips, editMode }: TravelNotesPanelProps) {
+  const [text, setText] = useState<string>("");
+  const add = () => { if(!text.trim()) return; setTips([...(tips||[]), text.trim()]); setText(""); };
+  const remove = (i: number) => { setTips(tips.filter((_,idx)=>idx!==i)); };
+  const onChange = (e: React.ChangeEvent<HTMLInputElement>) => setText(e.target.value);
+  return (
+    <div>
+      {editMode && (
+        <div className="flex gap-2 mb-3">
+          <Input value={text} onChange={onChange} placeholder="Add travel note"/>
+          <Button onClick={add}><Plus className="h-4 w-4 mr-1"/>Add</Button>
+        </div>
+      )}
+      <ul className="list-disc pl-6 space-y-1 text-sm">
+        {tips.map((t,i)=> (
+          <li key={i} className="flex items-start gap-2">
+            <span className="flex-1">{t}</span>
+            {editMode && <Button size="sm" variant="ghost" onClick={()=>remove(i)}>Remove</Button>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// ---------- Leaderboards ----------
+type RowWithIndex = LeaderboardEntry & { __i: number };
+
+// Radix Select can't use "" as an item value
+const NO_PLAYER = "__no_player__";
+
+// Picks from the roster; a name typed before it pointed at the roster stays selectable until it's reconciled
+function PlayerPicker({ value, participants, placeholder, onChange }: { value: string; participants: Participant[]; placeholder: string; onChange: (ref: string) => void }) {
+  const ids = rosterIds(participants);
+  const typed = value && !participants.some((p)=>p.id===value);
+  return (
+    <Select value={value || NO_PLAYER} onValueChange={(v)=>onChange(v === NO_PLAYER ? "" : v)}>
+      <SelectTrigger size="sm" className="w-full"><SelectValue /></SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_PLAYER}>{placeholder}</SelectItem>
+        {typed && <SelectItem value={value}>{value} (not on roster)</SelectItem>}
+        {ids.map((id)=> (<SelectItem key={id} value={id}>{personName(participants, id)}</SelectItem>))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Places gained or lost since the board last changed
+function MovementMark({ move }: { move?: Movement }) {
+  if (!move) return null;
+  if (move.places > 0) return <span className="inline-flex items-center text-xs text-green-700" title={`Up ${move.places}`}><ArrowUp className="h-3 w-3"/>{move.places}</span>;
+  if (move.places < 0) return <span className="inline-flex items-center text-xs text-red-700" title={`Down ${-move.places}`}><ArrowDown className="h-3 w-3"/>{-move.places}</span>;
+  return <Minus className="inline h-3 w-3 text-muted-foreground" aria-label="No change"/>;
+}
+
+// A board's rows (computed once its source has data) and the standings they're compared with
+interface BoardView {
+  board: Leaderboard;
+  rows: LeaderboardEntry[];
+  computed: boolean;
+  history: StandingsPoint[]; // earlier standings, oldest first
+}
+
+function LeaderboardTable({
+  view,
+  dayLabels,
+  participants,
+  editMode,
+  onChange,
+  onRemove,
+}: {
+  view: BoardView;
+  dayLabels: Map<string, string>;
+  participants: Participant[];
+  editMode: boolean;
+  onChange: (board: Leaderboard) => void;
+  onRemove: () => void;
+}) {
+  const { board, rows, computed, history } = view;
+  const editRows = editMode && !computed;
+  const standings = useMemo(() => rankRows(board, rows.map<RowWithIndex>((r, i) => ({ ...r, __i: i })), history), [board, rows, history]);
+  const previous = useMemo(() => previousStandings(history, rows), [history, rows]);
+  const moves = useMemo(() => {
+    if (!previous) return new Map<string, Movement>();
+    return movements(rankRows(board, previous.rows, history.slice(0, history.indexOf(previous))), standings);
+  }, [board, history, previous, standings]);
+  const setRow = (idx: number, row: LeaderboardEntry) => onChange({ ...board, rows: board.rows.map((r, i) => (i === idx ? row : r)) });
+  const format = (v: number | string) => formatBoardScore(board.format, toNumber(v));
+
+  return (
+    <Card className="border-muted/50">
+      <CardHeader>
+        <CardTitle className="text-base">{board.name || "Untitled board"}</CardTitle>
+        <div className="text-xs text-muted-foreground">{computed && board.source ? `${BOARD_SOURCES[board.source]} · ` : ""}{BOARD_SORTS[board.sort]}{board.tieBreak === "countback" ? " · ties on countback" : ""}</div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {editMode && <BoardSettings board={board} onChange={onChange} onRemove={onRemove} />}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm border border-slate-200 rounded-md">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="text-left p-2 w-20">Place</th>
+                <th className="text-left p-2">Player</th>
+                <th className="text-right p-2 w-28">{board.unit || "Score"}</th>
+                {editRows && <th className="w-10" />}
+              </tr>
+            </thead>
+            <tbody>
+              {standings.map((r, viewIdx) => {
+                const move = r.player ? moves.get(r.player) : undefined;
+                return (
+                  <tr key={`${r.__i}-${viewIdx}`} className="border-t">
+                    <td className="p-2"><span className="inline-flex items-center gap-2">{placeLabel(r)}{!editMode && <MovementMark move={move} />}</span></td>
+                    <td className="p-2">
+                      {editRows ? (
+                        <PlayerPicker
+                          value={r.player}
+                          participants={participants}
+                          placeholder={`Player ${viewIdx+1}`}
+                          onChange={(ref)=>setRow(r.__i, { player: ref, score: r.score })}
+                        />
+                      ) : (
+                        <span>{r.player ? personName(participants, r.player) : '—'}</span>
+                      )}
+                    </td>
+                    <td className="p-2 text-right">
+                      {editRows ? (
+                        <Input
+                          value={String(r.score ?? '')}
+                          placeholder="0"
+                          className="text-right"
+                          onChange={(e)=>setRow(r.__i, { player: r.player, score: e.target.value })}
+                        />
+                      ) : (
+                        <span className="tabular-nums">
+                          {format(r.score ?? 0)}
+                          {move && move.delta !== 0 && <span className="ml-1 text-xs text-muted-foreground">({formatBoardDelta(board.format, move.delta)})</span>}
+                        </span>
+                      )}
+                    </td>
+                    {editRows && <td className="p-1"><Button size="sm" variant="ghost" onClick={()=>onChange({ ...board, rows: board.rows.filter((_, i)=>i !== r.__i) })} title="Remove row"><Trash2 className="h-4 w-4"/></Button></td>}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        {editRows && <Button size="sm" variant="outline" onClick={()=>onChange({ ...board, rows: [...board.rows, { player: "", score: 0 }] })}><Plus className="h-4 w-4 mr-1"/>Add player</Button>}
+        {previous && !editMode && <div className="text-xs text-muted-foreground">Movement since {previous.dayId ? dayLabels.get(previous.dayId) ?? previous.dayId : "the last update"}</div>}
+        <StandingsChart board={board} points={timeline(history, rows)} dayLabels={dayLabels} participants={participants} />
+      </CardContent>
+    </Card>
+  );
+}
+
+// Typed boards don't know when a day ends, so its standings are saved by hand
+function SaveStandingsControl({ dayLabels, today, saved, onSave, onRemove }: { dayLabels: Map<string, string>; today: string; saved: LeaderboardSnapshot[]; onSave: (dayId: string) => void; onRemove: (dayId: string) => void }) {
+  const dayIds = Array.from(dayLabels.keys()).sort();
+  const [dayId, setDayId] = useState<string>(() => dayIds.filter((id)=>id <= today).pop() ?? dayIds[0] ?? "");
+  if (!dayIds.length) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span>Save standings as of</span>
+      <Select value={dayId || dayIds[0]} onValueChange={setDayId}>
+        <SelectTrigger size="sm" className="w-44"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {dayIds.map((id)=> <SelectItem key={id} value={id}>{dayLabels.get(id)}</SelectItem>)}
+        </SelectContent>
+      </Select>
+      <Button size="sm" variant="outline" onClick={()=>onSave(dayId || dayIds[0])}><History className="h-4 w-4 mr-1"/>{saved.some((s)=>s.dayId === (dayId || dayIds[0])) ? "Replace" : "Save"}</Button>
+      {saved.map((s)=> (
+        <Badge key={s.dayId} variant="secondary" className="gap-1">
+          {dayLabels.get(s.dayId) ?? s.dayId}
+          <button type="button" onClick={()=>onRemove(s.dayId)} title="Forget these standings" aria-label={`Forget standings for ${dayLabels.get(s.dayId) ?? s.dayId}`}>×</button>
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function LeaderboardSection({
+  views,
+  saved,
+  dayLabels,
+  today,
+  participants,
+  setBoards,
+  setSaved,
+  editMode,
+}: {
+  views: BoardView[];
+  saved: LeaderboardSnapshot[];
+  dayLabels: Map<string, string>;
+  today: string; // day id in the trip's zone
+  participants: Participant[];
+  setBoards: (boards: Leaderboard[]) => void;
+  setSaved: (history: LeaderboardSnapshot[]) => void;
+  editMode: boolean;
+}) {
+  const boards = views.map((v) => v.board);
+  const update = (idx: number) => (board: Leaderboard) => setBoards(boards.map((b, i) => (i === idx ? board : b)));
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Leaderboard</h2>
+        {editMode && <Button size="sm" variant="outline" onClick={()=>setBoards([...boards, emptyBoard()])}><Plus className="h-4 w-4 mr-1"/>Add board</Button>}
+      </div>
+      {editMode && views.some((v)=>!v.computed) && (
+        <SaveStandingsControl
+          dayLabels={dayLabels}
+          today={today}
+          saved={saved}
+          onSave={(dayId)=>setSaved(withSnapshot(saved, dayId, boards))}
+          onRemove={(dayId)=>setSaved(saved.filter((s)=>s.dayId !== dayId))}
+        />
+      )}
+      {!views.length && <p className="text-sm text-muted-foreground">No boards yet.</p>}
+      <div className="grid md:grid-cols-2 gap-4">
+        {views.map((view, i)=> (
+          <LeaderboardTable
+            key={view.board.id}
+            view={view}
+            dayLabels={dayLabels}
+            participants={participants}
+            editMode={editMode}
+            onChange={update(i)}
+            onRemove={()=>setBoards(boards.filter((_, j)=>j !== i))}
+          />
+        ))}
+      </div>
+    </section>
+  );
+}
+
+interface RecoveryScreenProps {
+  tripId: string;
+  failure: LoadFailure;
+  onDownload: () => void;
+  onStartOver: () => void;
+}
+function RecoveryScreen({ tripId, failure, onDownload, onStartOver }: RecoveryScreenProps) {
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-white">
+      <main className="max-w-3xl mx-auto px-4 py-16">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2"><AlertTriangle className="h-5 w-5 text-destructive"/>This trip&apos;s saved data can&apos;t be loaded</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <p>{failure.error.message}. Download a backup before starting over so nothing is lost.</p>
+            {failure.error.issues.length > 0 && (
+              <ul className="list-disc pl-6 space-y-1 font-mono text-xs max-h-64 overflow-y-auto">
+                {failure.error.issues.slice(0, 50).map((issue, i)=> <li key={i}>{issue}</li>)}
+              </ul>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={onDownload}><Download className="h-4 w-4 mr-1"/>Download backup (.json)</Button>
+              <Button variant="secondary" onClick={onStartOver}><RefreshCw className="h-4 w-4 mr-1"/>Start over with the starter itinerary</Button>
+              <Button asChild variant="ghost"><Link href="/"><ArrowLeft className="h-4 w-4 mr-1"/>All trips</Link></Button>
+            </div>
+            <p className="text-xs text-muted-foreground">Trip id: {tripId}</p>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
+
+// --------------------
+// Main App
+// --------------------
+export interface ItineraryAppProps {
+  tripId: string;
+}
+export function ItineraryApp({ tripId }: ItineraryAppProps){
+  // Load from the trip server after mount; fall back to the browser copy when offline
+  const [itin, setItin] = useState<Itinerary>(() => starterItinerary(tripId, ""));
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>("loading");
+  const [notFound, setNotFound] = useState<boolean>(false);
+  const [loadError, setLoadError] = useState<LoadFailure | null>(null);
+  const loaded = useRef(false);
+  // Set for changes that didn't come from this page's user (loading, other people's saves,
+  // undo itself), so they stay off the undo stack
+  const quiet = useRef<Itinerary | null>(null);
+  const setItinQuietly = (next: Itinerary) => { quiet.current = next; setItin(next); };
+  const lastSynced = useRef<string | null>(null);
+  // Null until the page knows what the server has; the next save then replaces the whole trip
+  const base = useRef<SyncBase | null>(null);
+  const [clientId] = useState<string>(newClientId);
+  const [retryTick, setRetryTick] = useState(0);
+  useEffect(() => {
+    let cancelled = false;
+    const localRaw = readLocalRaw(tripId);
+    const local = localRaw === null ? null : migrateOrError(localRaw);
+    // A browser copy that can't be migrated only matters when there's nothing better to show
+    const localOr = (fallback: Itinerary | null): Itinerary | null => {
+      if (local instanceof MigrationError) { setLoadError({ error: local, raw: localRaw }); return null; }
+      return local ?? fallback;
+    };
+    fetchTripWithRevision(tripId)
+      .then((stored) => {
+        if (cancelled) return;
+        if (stored !== null) {
+          const { raw: remote, revision } = stored;
+          const migrated = migrateOrError(remote);
+          if (migrated instanceof MigrationError) { setLoadError({ error: migrated, raw: remote }); return; }
+          // Compare against the stored JSON so an upgraded schema gets written back once
+          loaded.current = true;
+          lastSynced.current = JSON.stringify(remote);
+          base.current = lastSynced.current === JSON.stringify(migrated) ? { itin: migrated, revision } : null;
+          setItinQuietly(migrated);
+          setSyncStatus(lastSynced.current === JSON.stringify(migrated) ? "synced" : "saving");
+          return;
+        }
+        // No server copy yet: promote the browser copy (or the seed) and let the save effect upload it
+        if (localRaw === null && tripId !== SEED_TRIP_ID) { setNotFound(true); return; }
+        const next = localOr(seedData);
+        if (!next) return;
+        loaded.current = true;
+        setItinQuietly(next);
+        setRetryTick((n) => n + 1);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        const next = localOr(starterItinerary(tripId, ""));
+        if (!next) return;
+        loaded.current = true;
+        base.current = readLocalBase(tripId);
+        lastSynced.current = base.current && JSON.stringify(base.current.itin);
+        setItinQuietly(next);
+        setSyncStatus("offline");
+      });
+    return () => { cancelled = true; };
+  }, [tripId]);
+
+  // Recovery: replace unreadable data with the starter itinerary (after the user saved a backup)
+  const onStartOver = () => {
+    if (!window.confirm("Replace the unreadable trip data with the starter itinerary?")) return;
+    loaded.current = true;
+    setLoadError(null);
+    base.current = null;
+    setItinQuietly(starterItinerary(tripId, tripId));
+    setRetryTick((n) => n + 1);
+  };
+
+  const [search, setSearch] = useState<string>("");
+  const [editMode, setEditMode] = useState<boolean>(false);
+
+  // "Show in my home time zone" is a per-browser preference, not part of the trip
+  const [homeZone, setHomeZone] = useState<string>("");
+  const [showHomeZone, setShowHomeZone] = useState<boolean>(false);
+  useEffect(() => {
+    setHomeZone(browserTimeZone());
+    try { setShowHomeZone(localStorage.getItem(HOME_ZONE_KEY) === "1"); } catch { /* ignore */ }
+  }, []);
+  const onShowHomeZone = (v: boolean) => {
+    setShowHomeZone(v);
+    try { localStorage.setItem(HOME_ZONE_KEY, v ? "1" : "0"); } catch { /* ignore */ }
+  };
+  const displayZone = (zone: ZoneContext): ZoneContext => (showHomeZone && homeZone ? { ...zone, timeZone: homeZone } : zone);
+
+  // "View as" is per browser too: each person's device remembers who they are on this trip
+  const [viewAsId, setViewAsId] = useState<string>("");
+  useEffect(() => {
+    try { setViewAsId(localStorage.getItem(`${VIEW_AS_KEY}:${tripId}`) ?? ""); } catch { /* ignore */ }
+  }, [tripId]);
+  const onViewAs = (id: string) => {
+    setViewAsId(id);
+    try { if (id) localStorage.setItem(`${VIEW_AS_KEY}:${tripId}`, id); else localStorage.removeItem(`${VIEW_AS_KEY}:${tripId}`); } catch { /* ignore */ }
+  };
+  const viewAs = itin.participants.find((p)=>p.id===viewAsId && p.name.trim());
+
+  // Live updates: other pages' saves arrive over the trip's event stream, along with who else
+  // has the trip open
+  const [viewers, setViewers] = useState<Viewer[]>([]);
+  const [live, setLive] = useState<boolean>(false);
+  const current = useRef<Itinerary>(itin);
+  useEffect(() => { current.current = itin; }, [itin]);
+  const viewerName = viewAs ? participantLabel(viewAs) : "Guest";
+
+  // Saving: the page sends the operations between the server copy it last saw and its own, and
+  // the server merges them with whatever else was saved meanwhile. Edits to a field someone else
+  // changed come back as conflicts for the user to settle.
+  const [conflicts, setConflicts] = useState<Conflict[]>([]);
+  const saving = useRef(false);
+  const newerRemote = useRef<SyncBase | null>(null); // heard about while a save was in flight
+  const acceptBase = useCallback((next: SyncBase) => {
+    base.current = next;
+    lastSynced.current = JSON.stringify(next.itin);
+    writeLocalBase(tripId, next);
+  }, [tripId]);
+  const pushChanges = useCallback(() => {
+    if (saving.current) return; // the save in flight picks up newer edits when it finishes
+    const sent = current.current;
+    const from = base.current;
+    saving.current = true;
+    newerRemote.current = null;
+    const request = from
+      ? sendOps(tripId, { baseRevision: from.revision, ops: diffOps(from.itin, sent), author: viewerName }, clientId)
+      : saveTrip(tripId, sent, clientId, viewerName).then((revision) => ({ trip: sent, revision, conflicts: [] as Conflict[] }));
+    request
+      .then((result) => {
+        // A later save by someone else already includes this one
+        const latest = newerRemote.current && newerRemote.current.revision > result.revision ? newerRemote.current : { itin: result.trip, revision: result.revision };
+        acceptBase(latest);
+        // Edits made while the request was out go on top of the merged trip
+        const pending = diffOps(sent, current.current);
+        const next = pending.length ? applyOps(latest.itin, pending) : latest.itin;
+        if (JSON.stringify(next) !== JSON.stringify(current.current)) setItinQuietly(next);
+        if (result.conflicts.length) setConflicts((prev) => [...prev, ...result.conflicts]);
+        if (pending.length) setRetryTick((n) => n + 1);
+        else setSyncStatus("synced");
+      })
+      .catch(() => setSyncStatus("offline"))
+      .finally(() => { saving.current = false; newerRemote.current = null; });
+  }, [tripId, clientId, viewerName, acceptBase]);
+
+  // Save every change locally right away and to the server after a short pause
+  useEffect(() => {
+    if (!loaded.current || notFound || loadError) return;
+    writeLocalItinerary(tripId, itin);
+    if (JSON.stringify(itin) === lastSynced.current) return;
+    setSyncStatus("saving");
+    const timer = setTimeout(pushChanges, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [tripId, itin, notFound, loadError, retryTick, pushChanges]);
+
+  useEffect(() => {
+    if (notFound || loadError) return;
+    // Edits still waiting to be saved win here; the server merges them with this change
+    const applyRemote = (raw: unknown, revision: number) => {
+      const next = migrateOrError(raw);
+      if (next instanceof MigrationError || (base.current && revision <= base.current.revision)) return;
+      if (saving.current) { newerRemote.current = { itin: next, revision }; return; }
+      if (JSON.stringify(current.current) !== lastSynced.current) return;
+      acceptBase({ itin: next, revision });
+      setItinQuietly(next);
+      setSyncStatus("synced");
+    };
+    let dropped = false;
+    const close = subscribeToTrip(tripId, { clientId, name: viewerName }, {
+      onTrip: applyRemote,
+      onPresence: setViewers,
+      onLive: (isLive) => {
+        setLive(isLive);
+        if (!isLive) { dropped = true; return; }
+        // Catch up on anything saved while the stream was down
+        if (dropped) fetchTripWithRevision(tripId).then((stored) => { if (stored) applyRemote(stored.raw, stored.revision); }).catch(() => { /* still offline */ });
+        dropped = false;
+      },
+    });
+    return () => { close(); setLive(false); setViewers([]); };
+  }, [tripId, clientId, viewerName, notFound, loadError, acceptBase]);
+
+  const onKeepMine = (c: Conflict) => {
+    setItin((prev) => applyOps(prev, [c.mine]));
+    setConflicts((prev) => prev.filter((x) => x !== c));
+  };
+  const onKeepTheirs = (c: Conflict) => setConflicts((prev) => prev.filter((x) => x !== c));
+
+  // Undo/redo: every edit made on this page through setItin is a step; undoing applies the step's
+  // inverse to the trip as it is now, so it's saved and merged like any other edit
+  const [undoStack, setUndoStack] = useState<UndoStack>(EMPTY_UNDO);
+  const previous = useRef<Itinerary>(itin);
+  useEffect(() => {
+    const before = previous.current;
+    previous.current = itin;
+    if (!loaded.current || itin === quiet.current) return;
+    setUndoStack((stack) => recordEdit(stack, before, itin, Date.now()));
+  }, [itin]);
+  const onUndo = () => {
+    const result = undoEdit(undoStack, current.current);
+    if (!result) return;
+    setUndoStack(result.stack);
+    setItinQuietly(result.itin);
+  };
+  const onRedo = () => {
+    const result = redoEdit(undoStack, current.current);
+    if (!result) return;
+    setUndoStack(result.stack);
+    setItinQuietly(result.itin);
+  };
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) in edit mode; text fields keep their own undo
+  const undoKeys = useRef({ onUndo, onRedo });
+  undoKeys.current = { onUndo, onRedo };
+  useEffect(() => {
+    if (!editMode) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) undoKeys.current.onUndo();
+      else if ((key === "z" && e.shiftKey) || key === "y") undoKeys.current.onRedo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [editMode]);
+
+  // Restoring an earlier version is an ordinary edit: saved as the changes back to it, undoable
+  const [historyOpen, setHistoryOpen] = useState<boolean>(false);
+
+  // Push the local copy once the browser reconnects
+  useEffect(() => {
+    const onOnline = () => setRetryTick((n) => n + 1);
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, []);
+
+  // Filled after mount so server and client render the same markup
+  const [timeZoneOptions, setTimeZoneOptions] = useState<string[]>([]);
+  useEffect(() => {
+    try { setTimeZoneOptions(Intl.supportedValuesOf("timeZone")); } catch { /* older browsers: free text only */ }
+  }, []);
+
+  const breakdowns = useMemo(() => tripBreakdowns(itin), [itin]);
+  const matches = useMemo(() => cupMatches(itin), [itin]);
+  const score = useMemo(() => cupScore(matches), [matches]);
+  const ledger = useMemo(() => ledgerLines(itin, breakdowns), [itin, breakdowns]);
+  const balance = useMemo(() => balances(itin, ledger), [itin, ledger]);
+  const boardViews = useMemo<BoardView[]>(() => itin.leaderboards.map((board) => {
+    const computed = boardRows(board, breakdowns, ledger);
+    return {
+      board,
+      rows: computed ?? board.rows,
+      computed: !!computed,
+      // Computed boards have a point for every day that changed them; typed ones only have saved days
+      history: computed && board.source ? computedHistory(itin, breakdowns, ledger, board.source) : savedHistory(itin.leaderboardHistory, board.id),
+    };
+  }), [itin, breakdowns, ledger]);
+  const dayLabels = useMemo(() => new Map(itin.days.map((d)=> [d.id, formatDayLabel(d, dayZone(itin, d))])), [itin]);
+  const ledgerPlayers = useMemo(() => Array.from(new Set([...rosterIds(itin.participants), ...breakdowns.flatMap((b)=>b.players.map((p)=>p.player))])), [itin.participants, breakdowns]);
+  const unlinked = useMemo(() => ops.unlinkedNames(itin), [itin]);
+
+  const filteredDays = useMemo(() => {
+    const days = filterDays(itin.days, search);
+    return viewAs ? personalDays(days, viewAs).filter((d)=>d.events.length || !search.trim()) : days;
+  }, [search, itin.days, viewAs]);
+
+  const dayOptions = useMemo<DayOption[]>(() => itin.days.map((d)=> ({ id: d.id, label: `${formatDayLabel(d, dayZone(itin, d))} — ${d.city}` })), [itin]);
+
+  const updateEvent = (dayId: string, evtId: string, updated: EventItem) => setItin((prev)=> ops.updateEvent(prev, dayId, evtId, updated));
+  const addEvent = (dayId: string) => setItin((prev)=> ops.addEvent(prev, dayId));
+  const deleteEvent = (dayId: string, evtId: string) => setItin((prev)=> ops.deleteEvent(prev, dayId, evtId));
+  const duplicateEvent = (dayId: string, evtId: string) => setItin((prev)=> ops.duplicateEvent(prev, dayId, evtId));
+  const moveEvent = (dayId: string, evtId: string, toDayId: string) => setItin((prev)=> ops.moveEvent(prev, dayId, evtId, toDayId));
+  const updateDay = (dayId: string, patch: Partial<DayPlan>) => setItin((prev)=> ops.updateDay(prev, dayId, patch));
+  const changeDayDate = (dayId: string, newId: string): boolean => {
+    if (itin.days.some((d)=> d.id===newId)) return false;
+    setItin((prev)=> ops.changeDayDate(prev, dayId, newId));
+    return true;
+  };
+  const setMatchResult = (m: CupMatch, result: MatchOutcome | undefined) => setItin((prev)=> ops.updateTeeGroup(prev, m.dayId, m.event.id, m.group.id, { result }));
+  const removeDay = (dayId: string) => setItin((prev)=> ops.removeDay(prev, dayId));
+  const addFromName = (name: string) => {
+    const id = newParticipantId();
+    setItin((prev)=> ops.linkName({ ...prev, participants: [...prev.participants, { id, name: name.trim() }] }, name, id));
+  };
+  const addDay = () => setItin((prev)=> ops.addDay(prev, zonedDateKey(Date.now(), tripZone(prev).timeZone)));
+  const misplacedCount = useMemo(() => ops.countMisplacedEvents(itin), [itin]);
+  const onRebuildDays = () => {
+    if (window.confirm(`Regroup all events by the local date they start on? ${misplacedCount} event${misplacedCount!==1?'s':''} will move.`)) setItin((prev)=> ops.rebuildDaysFromEvents(prev));
+  };
+
+  const onPrint = () => window.print();
+  const onExportAll = () => downloadICS(itin, tripId);
+  const onExportJSON = () => downloadJSON(itin, `${slugify(itin.tripTitle) || tripId}.json`);
+
+  // Import: migrate a .json file like stored data, or merge a .ics file's events into the
+  // current trip, then preview the diff before replacing anything
+  const [importState, setImportState] = useState<ImportState | null>(null);
+  const pendingImport = useRef<Itinerary | null>(null);
+  const onImportFile = async (file: File) => {
+    pendingImport.current = null;
+    try {
+      const text = await file.text();
+      if (/\.ics$/i.test(file.name) || text.trimStart().startsWith("BEGIN:VCALENDAR")) {
+        const { itinerary, warnings } = mergeICS(itin, tripId, parseICS(text, itin.timeZone));
+        pendingImport.current = itinerary;
+        setImportState({ fileName: file.name, diff: diffItineraries(itin, itinerary), warnings });
+        return;
+      }
+      const incoming = migrateItinerary(JSON.parse(text) as unknown);
+      pendingImport.current = incoming;
+      setImportState({ fileName: file.name, diff: diffItineraries(itin, incoming) });
+    } catch (err) {
+      const issues = err instanceof MigrationError ? err.issues : [];
+      setImportState({ fileName: file.name, error: (err as Error).message, issues });
+    }
+  };
+  const onAcceptImport = () => {
+    if (pendingImport.current) setItin(pendingImport.current);
+    pendingImport.current = null;
+    setImportState(null);
+  };
+  const onRejectImport = () => { pendingImport.current = null; setImportState(null); };
+
+  if (loadError) {
+    return (
+      <RecoveryScreen
+        tripId={tripId}
+        failure={loadError}
+        onDownload={()=>downloadJSON(loadError.raw, `${tripId}-backup.json`)}
+        onStartOver={onStartOver}
+      />
+    );
+  }
+
+  if (notFound) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-white">
+        <main className="max-w-6xl mx-auto px-4 py-16">
+          <Card>
+            <CardContent className="py-10 text-center space-y-4">
+              <div className="text-lg font-semibold">Trip not found</div>
+              <p className="text-sm text-muted-foreground">There is no trip called “{tripId}” on this server.</p>
+              <Button asChild variant="outline"><Link href="/"><ArrowLeft className="h-4 w-4 mr-1"/>All trips</Link></Button>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-white">
+      <HeaderBar 
+        title={itin.tripTitle} 
+        subtitle={computedSubtitle(itin)} 
+        cupScore={itin.cup && matches.length > 0 ? <CupScoreBadge cup={itin.cup} score={score} /> : undefined}
+        viewAs={<ViewAsSelect participants={itin.participants} value={viewAs?.id ?? ""} onChange={onViewAs} />}
+        syncStatus={syncStatus}
+        presence={<PresenceBadge viewers={viewers} clientId={clientId} live={live} />}
+        onPrint={onPrint} 
+        onHistory={()=>setHistoryOpen(true)}
+        onUndo={onUndo}
+        onRedo={onRedo}
+        canUndo={undoStack.past.length > 0}
+        canRedo={undoStack.future.length > 0}
+        onExportAll={onExportAll}
+        onExportJSON={onExportJSON}
+        onImportFile={onImportFile}
+        search={search}
+        setSearch={setSearch}
+        editMode={editMode}
+        setEditMode={setEditMode}
+        showHomeZone={showHomeZone}
+        setShowHomeZone={onShowHomeZone}
+      />
+
+      <datalist id="time-zones">
+        {timeZoneOptions.map((z)=> <option key={z} value={z} />)}
+      </datalist>
+
+      <ImportPreview state={importState} onAccept={onAcceptImport} onReject={onRejectImport} />
+      <ConflictSheet itin={itin} conflicts={conflicts} onKeepMine={onKeepMine} onKeepTheirs={onKeepTheirs} />
+      <ChangeHistory tripId={tripId} open={historyOpen} onOpenChange={setHistoryOpen} zone={displayZone(tripZone(itin))} onRestore={setItin} />
+
+      <main className="max-w-6xl mx-auto px-4 py-6 space-y-6">
+        <Card>
+          <CardContent className="py-4 grid md:grid-cols-3 gap-4 items-center">
+            <div>
+              <div className="text-2xl font-bold leading-tight">{itin.tripTitle}</div>
+              <div className="text-muted-foreground">{computedSubtitle(itin)}</div>
+            </div>
+            <div className="text-sm">
+              <div className="font-medium mb-1">Lodging</div>
+              <div className="space-y-1">
+                {itin.lodging.map((l,i)=> (
+                  <div key={i} className="flex items-center gap-2">
+                    <Badge variant="outline">{l.city}</Badge>
+                    <span className="font-medium">{l.name}</span>
+                    <span className="text-muted-foreground">— {l.nights}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <Sheet>
+              <SheetTrigger asChild>
+                <Button className="w-full"><Users className="h-4 w-4 mr-1"/>Roster & Settings</Button>
+              </SheetTrigger>
+              <SheetContent>
+                <SheetHeader>
+                  <SheetTitle>Roster & Settings</SheetTitle>
+                </SheetHeader>
+                <div className="mt-4 space-y-6">
+                  <div>
+                    <div className="text-sm font-medium mb-2">Participants</div>
+                    <PeoplePanel list={itin.participants} setList={(n)=>setItin((prev)=>({...prev, participants:n}))} removeParticipant={(id)=>setItin((prev)=> ops.removeParticipant(prev, id))} />
+                  </div>
+                  {unlinked.length > 0 && (
+                    <div>
+                      <div className="text-sm font-medium mb-2">Names not on the roster</div>
+                      <ReconcileNamesPanel names={unlinked} participants={itin.participants} onLink={(name, id)=>setItin((prev)=> ops.linkName(prev, name, id))} onAdd={addFromName} />
+                    </div>
+                  )}
+                  <div>
+                    <div className="text-sm font-medium mb-2">Calendar reminders</div>
+                    <RemindersPanel reminders={itin.reminders} setReminders={(r)=>setItin((prev)=>({...prev, reminders:r}))} />
+                  </div>
+                  <div>
+                    <div className="text-sm font-medium mb-2">Time zone & locale</div>
+                    <TripZonePanel zone={tripZone(itin)} setZone={(z)=>setItin((prev)=>({...prev, ...z}))} />
+                  </div>
+                  <div>
+                    <div className="text-sm font-medium mb-2">Currency & exchange rates</div>
+                    <ExchangeRatesPanel itin={itin} setRates={(r)=>setItin((prev)=>({...prev, ...r}))} />
+                  </div>
+                  <div>
+                    <div className="text-sm font-medium mb-2">Lodging</div>
+                    <LodgingPanel lodging={itin.lodging} editMode={true} setLodging={(l)=>setItin((prev)=>({...prev, lodging:l}))} />
+                  </div>
+                </div>
+              </SheetContent>
+            </Sheet>
+          </CardContent>
+        </Card>
+
+        {/* NEW: Leaderboards */}
+        <LeaderboardSection
+          views={boardViews}
+          saved={itin.leaderboardHistory}
+          dayLabels={dayLabels}
+          today={zonedDateKey(Date.now(), tripZone(itin).timeZone)}
+          participants={itin.participants}
+          editMode={editMode}
+          setBoards={(boards)=>setItin((prev)=>({...prev, leaderboards:boards}))}
+          setSaved={(h)=>setItin((prev)=>({...prev, leaderboardHistory:h}))}
+        />
+        <RoundBreakdownList breakdowns={breakdowns.filter((b)=>b.players.some((p)=>p.thru > 0))} participants={itin.participants} display={displayZone(tripZone(itin))} />
+        <CupSection
+          cup={itin.cup}
+          matches={matches}
+          score={score}
+          toWin={pointsToWin(matches)}
+          unassigned={unassignedPlayers(itin)}
+          participants={itin.participants}
+          editMode={editMode}
+          display={displayZone(tripZone(itin))}
+          onCreate={()=>setItin((prev)=>({...prev, cup: defaultCup(prev.tripTitle)}))}
+          onChange={(cup)=>setItin((prev)=>({...prev, cup}))}
+          onResult={setMatchResult}
+        />
+        <LedgerSection
+          lines={ledger}
+          balance={balance}
+          transfers={settleUp(balance)}
+          bets={itin.bets}
+          payments={itin.payments}
+          players={ledgerPlayers}
+          participants={itin.participants}
+          editMode={editMode}
+          setBets={(bets)=>setItin((prev)=>({...prev, bets}))}
+          setPayments={(payments)=>setItin((prev)=>({...prev, payments}))}
+        />
+
+        <Tabs defaultValue="days" className="w-full">
+          <TabsList className="grid grid-cols-4 w-full">
+            <TabsTrigger value="days">Daily Plan</TabsTrigger>
+            <TabsTrigger value="lodging">Lodging</TabsTrigger>
+            <TabsTrigger value="notes">Travel Notes</TabsTrigger>
+            <TabsTrigger value="expenses">Expenses</TabsTrigger>
+          </TabsList>
+          <TabsContent value="days" className="space-y-4">
+            {viewAs && <ViewingAsBar tripId={tripId} itin={itin} participant={viewAs} onClear={()=>onViewAs("")} />}
+            {editMode && (
+              <div className="flex flex-wrap items-center gap-2">
+                <Button variant="outline" onClick={addDay}><Plus className="h-4 w-4 mr-1"/>Add day</Button>
+                <Button variant="outline" onClick={onRebuildDays} disabled={misplacedCount===0}><RefreshCw className="h-4 w-4 mr-1"/>Rebuild days from events</Button>
+                {misplacedCount > 0 && <span className="text-xs text-amber-700">{misplacedCount} event{misplacedCount!==1?'s':''} start on a different date than their day</span>}
+              </div>
+            )}
+            {filteredDays.map((d)=> (
+              <DayCard
+                key={d.id}
+                day={d}
+                editMode={editMode}
+                zone={dayZone(itin, d)}
+                display={displayZone(dayZone(itin, d))}
+                onUpdateDay={updateDay}
+                dayOptions={dayOptions}
+                onUpdateEvent={updateEvent}
+                onAddEvent={addEvent}
+                onDeleteEvent={deleteEvent}
+                onDuplicateEvent={duplicateEvent}
+                onMoveEvent={moveEvent}
+                onChangeDate={changeDayDate}
+                onRemoveDay={removeDay}
+                onExportEvent={(evt)=>downloadICS(itin, tripId, { singleEvent: evt })}
+                participants={itin.participants}
+                viewAs={viewAs}
+              />
+            ))}
+            {filteredDays.length===0 && (
+              <Card><CardContent className="py-10 text-center text-muted-foreground">{itin.days.length ? "No matches. Try another search." : "No days yet. Turn on Edit to add the first one."}</CardContent></Card>
+            )}
+          </TabsContent>
+          <TabsContent value="lodging">
+            <LodgingPanel lodging={itin.lodging} editMode={editMode} setLodging={(l)=>setItin((prev)=>({...prev, lodging:l}))} />
+          </TabsContent>
+          <TabsContent value="notes">
+            <div className="text-sm text-muted-foreground mb-2">Trip tips / reminders</div>
+            <TravelNotesPanel tips={itin.tips} setTips={(t)=>setItin((prev)=>({...prev, tips:t}))} editMode={editMode} />
+          </TabsContent>
+          <TabsContent value="expenses">
+            <ExpensesPanel tripId={tripId} itin={itin} editMode={editMode} setExpenses={(expenses)=>setItin((prev)=>({...prev, expenses}))} />
+          </TabsContent>
+        </Tabs>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Quick Actions</CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={onExportAll}><Download className="h-4 w-4 mr-1"/>Export entire trip (.ics)</Button>
+            <CalendarFeedPanel tripId={tripId} participants={itin.participants} />
+            {itin.lodging.map((l,i)=> (
+              <Button key={i} variant="outline" onClick={()=>openMaps(`${l.name} ${l.city}`)}>Maps: {l.city || l.name}</Button>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Share & Print</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground space-y-2">
+            <p>Use <span className="font-medium">Export .ics</span> to drop events into your calendar. Use <span className="font-medium">Print</span> for a clean PDF (browser print dialog). <span className="font-medium">Export trip (.json)</span> saves everything — notes, lodging, tips, roster and leaderboards — and <span className="font-medium">Import trip</span> previews the changes before applying them. Importing a <span className="font-medium">.ics</span> file (e.g. a tour operator confirmation) merges its events into this trip, updating any it already has.</p>
+            <p>Your edits auto-save to the shared trip server so the whole group sees them; offline edits stay in your browser (local storage) and upload when you reconnect. In edit mode, <span className="font-medium">Undo</span> and <span className="font-medium">Redo</span> (Ctrl+Z / Ctrl+Shift+Z) step through your own changes; <span className="font-medium">History</span> shows who changed what and when, and <span className="font-medium">Restore</span> brings back any earlier version.</p>
+          </CardContent>
+        </Card>
+      </main>
+
+      <footer className="py-8 text-center text-xs text-muted-foreground">
+        Built for your golf trip — responsive, printable, and calendar-friendly.
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import React, { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowRight, Check, Plus, Trash2 } from "lucide-react";
+import type { Bet, Participant, Payment } from "@/lib/types";
+import { fmtMoney, newLedgerId, totalsByPlayer, type LedgerLine, type Transfer } from "@/lib/ledger";
+import { personName, personRef } from "@/lib/participants";
+
+const signed = (n: number) => `${n > 0 ? "+" : ""}${fmtMoney(n)}`;
+const tone = (n: number) => (n > 0.004 ? "text-emerald-700" : n < -0.004 ? "text-destructive" : "text-muted-foreground");
+
+// Names typed for someone on the roster are stored as their participant id
+function BetForm({ participants, onAdd }: { participants: Participant[]; onAdd: (bet: Bet) => void }) {
+  const [bet, setBet] = useState<Omit<Bet, "id">>({ description: "", winner: "", loser: "", amount: 0 });
+  const valid = bet.winner.trim() && bet.loser.trim() && bet.winner.trim() !== bet.loser.trim() && bet.amount > 0;
+  const onSubmit = () => {
+    if (!valid) return;
+    onAdd({ id: newLedgerId("bet"), ...bet, winner: personRef(participants, bet.winner), loser: personRef(participants, bet.loser) });
+    setBet({ description: "", winner: "", loser: "", amount: 0 });
+  };
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Input value={bet.description} onChange={(e)=>setBet({ ...bet, description: e.target.value })} placeholder="What was the bet?" className="flex-1 min-w-40" />
+      <Input value={bet.winner} onChange={(e)=>setBet({ ...bet, winner: e.target.value })} placeholder="Winner" list="ledger-players" className="w-32" />
+      <Input value={bet.loser} onChange={(e)=>setBet({ ...bet, loser: e.target.value })} placeholder="Loser" list="ledger-players" className="w-32" />
+      <Input type="number" min={0} value={bet.amount || ""} onChange={(e)=>setBet({ ...bet, amount: Math.max(0, Number(e.target.value) || 0) })} placeholder="$" className="w-20" />
+      <Button variant="outline" size="sm" onClick={onSubmit} disabled={!valid}><Plus className="h-4 w-4 mr-1"/>Add bet</Button>
+    </div>
+  );
+}
+
+interface LedgerSectionProps {
+  lines: LedgerLine[];
+  balance: Map<string, number>;
+  transfers: Transfer[];
+  bets: Bet[];
+  payments: Payment[];
+  players: string[]; // person refs suggested in the bet form
+  participants: Participant[];
+  editMode: boolean;
+  setBets: (bets: Bet[]) => void;
+  setPayments: (payments: Payment[]) => void;
+}
+export function LedgerSection({ lines, balance, transfers, bets, payments, players, participants, editMode, setBets, setPayments }: LedgerSectionProps) {
+  if (!lines.length && !payments.length && !editMode) return null;
+  const name = (ref: string) => personName(participants, ref);
+  const winnings = totalsByPlayer(lines);
+  const rows = Array.from(balance.keys()).sort((a, b) => (winnings.get(b) ?? 0) - (winnings.get(a) ?? 0));
+  const onPaid = (t: Transfer) => setPayments([...payments, { id: newLedgerId("pay"), ...t }]);
+
+  return (
+    <section className="space-y-3">
+      <datalist id="ledger-players">
+        {players.map((p)=> <option key={p} value={name(p)} />)}
+      </datalist>
+      <h2 className="text-lg font-semibold">Ledger & settle-up</h2>
+      <div className="grid md:grid-cols-2 gap-4">
+        <Card className="border-muted/50">
+          <CardHeader className="pb-2"><CardTitle className="text-base">Balances</CardTitle></CardHeader>
+          <CardContent className="text-sm">
+            {rows.length === 0 ? (
+              <p className="text-muted-foreground">Nothing won or lost yet. Match stakes and side games are set on each round&apos;s scorecard.</p>
+            ) : (
+              <table className="w-full">
+                <thead className="text-xs text-muted-foreground">
+                  <tr>
+                    <th className="text-left">Player</th>
+                    <th className="text-right">Won</th>
+                    <th className="text-right">Paid</th>
+                    <th className="text-right">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((p)=> {
+                    const won = winnings.get(p) ?? 0;
+                    const left = balance.get(p) ?? 0;
+                    return (
+                      <tr key={p} className="border-t tabular-nums">
+                        <td>{name(p)}</td>
+                        <td className={`text-right ${tone(won)}`}>{signed(won)}</td>
+                        <td className="text-right text-muted-foreground">{Math.abs(left - won) > 0.004 ? signed(left - won) : "—"}</td>
+                        <td className={`text-right font-medium ${tone(left)}`}>{signed(left)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+        <Card className="border-muted/50">
+          <CardHeader className="pb-2"><CardTitle className="text-base">Settle up</CardTitle></CardHeader>
+          <CardContent className="text-sm space-y-2">
+            {transfers.length === 0 ? (
+              <p className="text-muted-foreground">{rows.length ? "Everyone is square." : "Nothing to settle."}</p>
+            ) : (
+              <ul className="space-y-1">
+                {transfers.map((t)=> (
+                  <li key={`${t.from}-${t.to}`} className="flex items-center gap-2">
+                    <span>{name(t.from)}</span><ArrowRight className="h-3 w-3 text-muted-foreground"/><span>{name(t.to)}</span>
+                    <span className="font-medium tabular-nums ml-auto">{fmtMoney(t.amount)}</span>
+                    {editMode && <Button variant="ghost" size="sm" onClick={()=>onPaid(t)} title="Record this payment"><Check className="h-4 w-4 mr-1"/>Paid</Button>}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {payments.length > 0 && (
+              <div className="pt-2 border-t space-y-1">
+                <div className="text-xs text-muted-foreground">Paid so far</div>
+                {payments.map((p)=> (
+                  <div key={p.id} className="flex items-center gap-2 text-xs">
+                    <span>{name(p.from)} paid {name(p.to)} {fmtMoney(p.amount)}</span>
+                    {editMode && <Button variant="ghost" size="icon" className="h-6 w-6 ml-auto" onClick={()=>setPayments(payments.filter((x)=>x.id!==p.id))} title="Remove payment"><Trash2 className="h-3 w-3"/></Button>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      {(bets.length > 0 || editMode) && (
+        <Card className="border-muted/50">
+          <CardHeader className="pb-2"><CardTitle className="text-base">Bets</CardTitle></CardHeader>
+          <CardContent className="text-sm space-y-2">
+            {bets.map((b)=> (
+              <div key={b.id} className="flex items-center gap-2">
+                <span className="flex-1">{b.description || "Bet"}</span>
+                <span>{name(b.loser)} owes {name(b.winner)}</span>
+                <span className="font-medium tabular-nums">{fmtMoney(b.amount)}</span>
+                {editMode && <Button variant="ghost" size="icon" onClick={()=>setBets(bets.filter((x)=>x.id!==b.id))} title="Remove bet"><Trash2 className="h-4 w-4"/></Button>}
+              </div>
+            ))}
+            {editMode && <BetForm participants={participants} onAdd={(bet)=>setBets([...bets, bet])} />}
+          </CardContent>
+        </Card>
+      )}
+      {lines.length > 0 && (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-muted-foreground">Every entry ({lines.length})</summary>
+          <table className="w-full mt-2">
+            <tbody>
+              {lines.map((l, i)=> (
+                <tr key={i} className="border-t tabular-nums">
+                  <td>{l.eventId ? <a href={`#evt-${l.eventId}`} className="underline underline-offset-2">{l.label}</a> : l.label}</td>
+                  <td>{name(l.player)}</td>
+                  <td className={`text-right ${tone(l.amount)}`}>{signed(l.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, CalendarDays, Download, Flag, MapPin, Printer, UserRound } from "lucide-react";
+import type { EventItem, Itinerary, Participant, TeeGroup } from "@/lib/types";
+import { fetchTrip } from "@/lib/trip-api";
+import { migrateItinerary } from "@/lib/migrations";
+import { downloadICS } from "@/lib/ics";
+import { formatPlayers } from "@/lib/golf-round";
+import { dayZone, formatDateTime, formatDayLabel, formatTime, type ZoneContext } from "@/lib/format";
+import { RSVP_LABELS } from "@/components/attendance";
+import { findParticipant, participantLabel, personalDays, rsvpOf, teeGroupFor } from "@/lib/participants";
+
+// Radix Select can't use "" as an item value
+const EVERYONE = "__everyone__";
+
+export function ViewAsSelect({ participants, value, onChange }: { participants: Participant[]; value: string; onChange: (participantId: string) => void }) {
+  const named = participants.filter((p)=>p.name.trim());
+  if (!named.length) return null;
+  return (
+    <Select value={value || EVERYONE} onValueChange={(v)=>onChange(v === EVERYONE ? "" : v)}>
+      <SelectTrigger size="sm" title="Show the itinerary as one person sees it"><UserRound className="h-4 w-4"/><SelectValue /></SelectTrigger>
+      <SelectContent>
+        <SelectItem value={EVERYONE}>Everyone</SelectItem>
+        {named.map((p)=> <SelectItem key={p.id} value={p.id}>{participantLabel(p)}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// "15:40 with Levin (9) v. Moran (23) + McConnell (15)"; partners first, then opponents
+function groupLine(group: TeeGroup, participant: Participant, participants: Participant[], display: ZoneContext): string {
+  const mine = group.sides.findIndex((side)=>side.some((p)=>p.participantId === participant.id));
+  const partners = group.sides[mine]?.filter((p)=>p.participantId !== participant.id) ?? [];
+  const others = group.sides.filter((_, i)=>i !== mine);
+  const withWhom = [partners.length ? `with ${formatPlayers(partners, participants)}` : "", ...others.map((side)=>`v. ${formatPlayers(side, participants)}`)].filter(Boolean);
+  return [formatTime(group.teeTime, display), ...withWhom].join(" ");
+}
+
+export function PersonalTeeTime({ event, participant, participants, display }: { event: EventItem; participant: Participant; participants: Participant[]; display: ZoneContext }) {
+  const group = teeGroupFor(event, participant.id);
+  if (!group) return null;
+  return <div className="text-sm flex items-center gap-2 font-medium"><Flag className="h-4 w-4"/>{participantLabel(participant)}&apos;s tee time: {groupLine(group, participant, participants, display)}</div>;
+}
+
+// Shown above the day cards while viewing as someone
+export function ViewingAsBar({ tripId, itin, participant, onClear }: { tripId: string; itin: Itinerary; participant: Participant; onClear: () => void }) {
+  const sheet = `/trips/${encodeURIComponent(tripId)}/sheet?participant=${encodeURIComponent(participant.id)}`;
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border bg-secondary p-2 text-sm">
+      <UserRound className="h-4 w-4"/>
+      <span className="flex-1">Showing <span className="font-medium">{participantLabel(participant)}</span>&apos;s events and tee times</span>
+      <Button asChild variant="outline" size="sm"><Link href={sheet}><Printer className="h-4 w-4 mr-1"/>Printable sheet</Link></Button>
+      <Button variant="outline" size="sm" onClick={()=>downloadICS(itin, tripId, { participant })}><Download className="h-4 w-4 mr-1"/>Export my .ics</Button>
+      <Button variant="ghost" size="sm" onClick={onClear}>Show everyone</Button>
+    </div>
+  );
+}
+
+// One person's days on a single printable page
+export function PersonalSheet({ tripId, participantId }: { tripId: string; participantId: string }) {
+  const [itin, setItin] = useState<Itinerary | null>(null);
+  const [error, setError] = useState<string>("");
+  useEffect(() => {
+    fetchTrip(tripId)
+      .then((raw) => {
+        if (raw === null) setError(`There is no trip called “${tripId}” on this server.`);
+        else setItin(migrateItinerary(raw));
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [tripId]);
+
+  const back = `/trips/${encodeURIComponent(tripId)}`;
+  const participant = itin ? findParticipant(itin.participants, participantId) : undefined;
+  const missing = itin && !participant ? "That person isn't on this trip's roster." : "";
+  const days = itin && participant ? personalDays(itin.days, participant).filter((d)=>d.events.length) : [];
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="sticky top-0 z-40 backdrop-blur bg-white/70 border-b print:hidden">
+        <div className="max-w-3xl mx-auto px-4 py-3 flex items-center gap-2">
+          <Link href={back} title="Back to the trip"><ArrowLeft className="h-6 w-6" /></Link>
+          <div className="flex-1 text-xl font-semibold leading-tight">Personal itinerary</div>
+          {itin && participant && <Button variant="outline" onClick={()=>downloadICS(itin, tripId, { participant })}><Download className="h-4 w-4 mr-1"/>Export .ics</Button>}
+          <Button variant="outline" onClick={()=>window.print()} disabled={!participant}><Printer className="h-4 w-4 mr-1"/>Print</Button>
+        </div>
+      </div>
+
+      <main className="max-w-3xl mx-auto px-4 py-6 space-y-4">
+        {(error || missing) && (
+          <Card>
+            <CardContent className="py-6 space-y-3 text-sm">
+              <p>{error || missing}</p>
+              <Button asChild variant="outline"><Link href={back}><ArrowLeft className="h-4 w-4 mr-1"/>Back to the trip</Link></Button>
+            </CardContent>
+          </Card>
+        )}
+        {!itin && !error && <p className="text-sm text-muted-foreground">Loading…</p>}
+        {itin && participant && (
+          <>
+            <div>
+              <h1 className="text-2xl font-semibold">{participantLabel(participant)}</h1>
+              <div className="text-sm text-muted-foreground">{itin.tripTitle}{participant.arrival || participant.departure ? ` · ${participant.arrival ?? "start"} to ${participant.departure ?? "end"}` : ""}</div>
+            </div>
+            {days.length === 0 && <p className="text-sm text-muted-foreground">Nothing on the schedule for {participantLabel(participant)} yet.</p>}
+            {days.map((d)=> {
+              const zone = dayZone(itin, d);
+              return (
+                <Card key={d.id} className="break-inside-avoid">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base">{formatDayLabel(d, zone)} <span className="font-normal text-muted-foreground">— {d.city}</span></CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3 text-sm">
+                    {d.events.map((e)=> {
+                      const rsvp = rsvpOf(e, participant.id);
+                      return (
+                        <div key={e.id} className="space-y-1">
+                          <div className="flex items-center gap-2 font-medium">
+                            {e.title}
+                            {rsvp && <Badge variant="outline">{RSVP_LABELS[rsvp]}</Badge>}
+                          </div>
+                          <div className="flex items-center gap-2 text-muted-foreground"><CalendarDays className="h-4 w-4"/>{formatDateTime(e.start, zone)} → {formatTime(e.end, zone)}</div>
+                          {e.location && <div className="flex items-center gap-2 text-muted-foreground"><MapPin className="h-4 w-4"/>{e.location}</div>}
+                          <PersonalTeeTime event={e} participant={participant} participants={itin.participants} display={zone} />
+                          {e.notes && <p className="text-muted-foreground">{e.notes}</p>}
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
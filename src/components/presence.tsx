@@ -0,0 +1,25 @@
+"use client";
+
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import type { Viewer } from "@/lib/trip-events";
+
+const SHOWN = 3;
+
+const initials = (name: string) => name.split(/\s+/).filter(Boolean).slice(0, 2).map((w)=>w[0]!.toUpperCase()).join("") || "?";
+
+// Who else has the trip open, as initials; the dot shows whether live updates are flowing
+export function PresenceBadge({ viewers, clientId, live }: { viewers: Viewer[]; clientId: string; live: boolean }) {
+  const others = viewers.filter((v)=>v.clientId !== clientId);
+  const title = !live ? "Reconnecting for live updates…" : others.length ? `Also viewing: ${others.map((v)=>v.name).join(", ")}` : "Live — no one else is viewing";
+  return (
+    <Badge variant="outline" className="gap-1" title={title}>
+      <span className={`h-2 w-2 rounded-full ${live ? "bg-green-600" : "bg-slate-300"}`} />
+      {others.length === 0 && (live ? "Live" : "Not live")}
+      {others.slice(0, SHOWN).map((v)=> (
+        <span key={v.clientId} className="flex h-4 w-4 items-center justify-center rounded-full bg-secondary text-[9px] font-semibold">{initials(v.name)}</span>
+      ))}
+      {others.length > SHOWN && <span>+{others.length - SHOWN}</span>}
+    </Badge>
+  );
+}
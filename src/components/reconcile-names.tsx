@@ -0,0 +1,43 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Link2, UserPlus } from "lucide-react";
+import type { Participant } from "@/lib/types";
+import { participantLabel } from "@/lib/participants";
+
+// Radix Select can't use "" as an item value
+const NOT_LINKED = "__not_linked__";
+
+interface ReconcileNamesPanelProps {
+  names: { name: string; uses: number }[];
+  participants: Participant[];
+  onLink: (name: string, participantId: string) => void;
+  onAdd: (name: string) => void;
+}
+
+// Names typed on boards, pairings and the ledger before they pointed at the roster; linking
+// one rewrites every place it appears
+export function ReconcileNamesPanel({ names, participants, onLink, onAdd }: ReconcileNamesPanelProps) {
+  if (!names.length) return null;
+  return (
+    <div className="space-y-2 text-sm">
+      {names.map(({ name, uses })=> (
+        <div key={name} className="flex items-center gap-2">
+          <Link2 className="h-4 w-4 shrink-0 text-muted-foreground"/>
+          <span className="flex-1 truncate" title={`Used ${uses} time${uses !== 1 ? "s" : ""}`}>{name} <span className="text-xs text-muted-foreground">×{uses}</span></span>
+          <Select value={NOT_LINKED} onValueChange={(id)=>{ if (id !== NOT_LINKED) onLink(name, id); }}>
+            <SelectTrigger size="sm" className="w-40"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NOT_LINKED}>Link to…</SelectItem>
+              {participants.map((p, i)=> <SelectItem key={p.id} value={p.id}>{p.name.trim() ? participantLabel(p) : `Unnamed spot ${i + 1}`}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="ghost" onClick={()=>onAdd(name)} title={`Add ${name} to the roster`}><UserPlus className="h-4 w-4"/></Button>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">Linked names follow the participant when they&apos;re renamed. Anything left here stays as typed.</p>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Flag, Plus, Trash2 } from "lucide-react";
+import type { GolfRound, MatchFormat, Participant, RoundPlayer, TeeGroup } from "@/lib/types";
+import { MATCH_FORMATS, formatPlayers, nextTeeGroup, parseSides } from "@/lib/golf-round";
+import { formatTime, type ZoneContext } from "@/lib/format";
+import { fromZonedInputValue, toZonedInputValue } from "@/lib/timezone";
+import { linkPlayer, personName, playerRef } from "@/lib/participants";
+
+const formatSides = (sides: RoundPlayer[][], participants: Participant[]) => sides.map((side) => formatPlayers(side, participants)).join(" v. ");
+
+// Pairings are typed the way they've always been written ("A (9) + B (11) v. C (23) + D (15)")
+// and parsed when the field loses focus; names of people on the roster are linked to them
+function SidesInput({ sides, participants, onCommit }: { sides: RoundPlayer[][]; participants: Participant[]; onCommit: (sides: RoundPlayer[][]) => void }) {
+  const shown = formatSides(sides, participants);
+  const [text, setText] = useState<string>(shown);
+  useEffect(() => setText(shown), [shown]);
+  const onBlur = () => { if (text !== shown) onCommit(parseSides(text).map((side) => side.map((p) => linkPlayer(participants, p)))); };
+  return <Input value={text} onChange={(e)=>setText(e.target.value)} onBlur={onBlur} placeholder="Levin (9) + Probst (11) v. Moran (23) + McConnell (15)" />;
+}
+
+// Tee times are edited as a clock time on the group's own local date
+function TeeTimeInput({ teeTime, timeZone, onChange }: { teeTime: string; timeZone: string; onChange: (iso: string) => void }) {
+  const local = toZonedInputValue(teeTime, timeZone);
+  const onTime = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const iso = e.target.value ? fromZonedInputValue(`${local.slice(0, 10)}T${e.target.value}`, timeZone) : "";
+    if (iso) onChange(iso);
+  };
+  return <Input type="time" value={local.slice(11, 16)} onChange={onTime} className="w-28" aria-label="Tee time" />;
+}
+
+function SideCell({ side, participants }: { side?: RoundPlayer[]; participants: Participant[] }) {
+  if (!side?.length) return <span className="text-muted-foreground">—</span>;
+  return (
+    <span className="space-x-2">
+      {side.map((p, i)=> (
+        <span key={i} className="whitespace-nowrap">{personName(participants, playerRef(p))}{p.handicap !== undefined && <span className="text-muted-foreground"> ({p.handicap})</span>}</span>
+      ))}
+    </span>
+  );
+}
+
+interface RoundPairingsProps {
+  round: GolfRound;
+  participants: Participant[];
+  editMode: boolean;
+  timeZone: string;      // the day's zone, used for editing
+  display: ZoneContext;  // zone tee times are shown in
+  eventStart: string;
+  onChange: (round: GolfRound | undefined) => void;
+}
+export function RoundPairings({ round, participants, editMode, timeZone, display, eventStart, onChange }: RoundPairingsProps) {
+  const [course, setCourse] = useState<string>(round.course);
+  useEffect(() => setCourse(round.course), [round.course]);
+
+  const updateGroup = (id: string, patch: Partial<TeeGroup>) =>
+    onChange({ ...round, groups: round.groups.map((g) => (g.id === id ? { ...g, ...patch } : g)) });
+  const sorted = [...round.groups].sort((a, b) => new Date(a.teeTime).getTime() - new Date(b.teeTime).getTime());
+  const isMatch = round.groups.some((g) => g.sides.length > 1);
+
+  if (!editMode) {
+    return (
+      <div className="text-sm space-y-1">
+        <div className="flex items-center gap-2">
+          <Flag className="h-4 w-4"/>
+          <span className="font-medium">{round.course}</span>
+          <Badge variant="outline">{MATCH_FORMATS[round.format]}</Badge>
+        </div>
+        {sorted.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm border border-slate-200 rounded-md">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="text-left p-2 w-24">Tee time</th>
+                  <th className="text-left p-2">{isMatch ? "Side A" : "Players"}</th>
+                  {isMatch && <th className="p-2 w-6"></th>}
+                  {isMatch && <th className="text-left p-2">Side B</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.map((g)=> (
+                  <tr key={g.id} className="border-t">
+                    <td className="p-2 whitespace-nowrap">{formatTime(g.teeTime, display)}</td>
+                    <td className="p-2">{g.sides.length > 1 ? <SideCell side={g.sides[0]} participants={participants} /> : <SideCell side={g.sides.flat()} participants={participants} />}</td>
+                    {isMatch && <td className="p-2 text-muted-foreground">{g.sides.length > 1 ? "v." : ""}</td>}
+                    {isMatch && <td className="p-2">{g.sides.length > 1 && <SideCell side={g.sides.slice(1).flat()} participants={participants} />}</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-sm space-y-2 rounded-md border p-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Flag className="h-4 w-4"/>
+        <Input value={course} onChange={(e)=>setCourse(e.target.value)} onBlur={()=>{ if (course !== round.course) onChange({ ...round, course }); }} placeholder="Course" className="flex-1 min-w-40" />
+        <Select value={round.format} onValueChange={(v)=>onChange({ ...round, format: v as MatchFormat })}>
+          <SelectTrigger size="sm"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {Object.entries(MATCH_FORMATS).map(([value, label])=> (<SelectItem key={value} value={value}>{label}</SelectItem>))}
+          </SelectContent>
+        </Select>
+      </div>
+      {sorted.map((g)=> (
+        <div key={g.id} className="flex items-center gap-2">
+          <TeeTimeInput teeTime={g.teeTime} timeZone={timeZone} onChange={(teeTime)=>updateGroup(g.id, { teeTime })} />
+          <SidesInput sides={g.sides} participants={participants} onCommit={(sides)=>updateGroup(g.id, { sides })} />
+          <Button variant="ghost" size="icon" onClick={()=>onChange({ ...round, groups: round.groups.filter((x)=>x.id!==g.id) })} title="Remove group"><Trash2 className="h-4 w-4"/></Button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={()=>onChange({ ...round, groups: [...round.groups, nextTeeGroup(round.groups, eventStart)] })}><Plus className="h-4 w-4 mr-1"/>Add tee time</Button>
+        <Button variant="ghost" size="sm" onClick={()=>{ if (window.confirm("Remove the tee times and pairings from this event?")) onChange(undefined); }}>Remove round</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Switch } from "@/components/ui/switch";
+import { ClipboardList } from "lucide-react";
+import type { GolfRound, GolfRoundEvent, HoleInfo, Participant, RoundPlayer, Scorecard } from "@/lib/types";
+import { defaultHoles, fmtToPar, holesPlayed, roundBreakdown, strokesReceived, syncScorecard, type RoundBreakdown } from "@/lib/scoring";
+import { formatDateTime, type ZoneContext } from "@/lib/format";
+import { participantHandicaps, personName, playerRef } from "@/lib/participants";
+import { SideGamesPanel } from "@/components/side-games";
+
+// "" clears a cell; anything else must be a positive whole number
+const parseCell = (value: string): number | null | undefined => {
+  if (value.trim() === "") return null;
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+};
+
+// Shorter cards keep the first holes; longer ones continue the default layout
+function resizeHoles(card: Scorecard, count: number): Scorecard {
+  const holes: HoleInfo[] = Array.from({ length: count }, (_, i) => card.holes[i] ?? defaultHoles()[i % 18]);
+  return { ...card, holes, scores: card.scores.map((s) => ({ ...s, strokes: holes.map((_, i) => s.strokes[i] ?? null) })) };
+}
+
+const cellClass = "w-10 h-8 p-1 text-center tabular-nums";
+
+// "Levin + Probst v. Moran + McConnell"
+const matchLabel = (sides: RoundPlayer[][], participants: Participant[]) =>
+  sides.map((side) => side.map((p) => personName(participants, playerRef(p))).join(" + ")).join(" v. ");
+
+// Blank clears an optional course number
+const parseOptional = (value: string): number | undefined => (value.trim() === "" || isNaN(Number(value)) ? undefined : Number(value));
+
+interface ScorecardSheetProps {
+  event: GolfRoundEvent;
+  participants: Participant[];
+  editMode: boolean;
+  onChange: (round: GolfRound) => void;
+}
+export function ScorecardSheet({ event, participants, editMode, onChange }: ScorecardSheetProps) {
+  const round = event.round;
+  const card = syncScorecard(round);
+  const breakdown = roundBreakdown({ ...event, round: { ...round, scorecard: card } }, participantHandicaps(participants));
+  const name = (ref: string) => personName(participants, ref);
+  const scoreOf = (player: string) => breakdown?.players.find((p) => p.player === player);
+  const setCard = (next: Scorecard) => onChange({ ...round, scorecard: next });
+  const setHole = (i: number, key: keyof HoleInfo, value: string) => {
+    const n = parseCell(value);
+    if (n) setCard({ ...card, holes: card.holes.map((h, j) => (j === i ? { ...h, [key]: n } : h)) });
+  };
+  const setStroke = (player: string, i: number, value: string) => {
+    const n = parseCell(value);
+    if (n === undefined) return;
+    setCard({ ...card, scores: card.scores.map((s) => (s.player === player ? { ...s, strokes: s.strokes.map((x, j) => (j === i ? n : x)) } : s)) });
+  };
+  const totalPar = card.holes.reduce((sum, h) => sum + h.par, 0);
+  const matches = breakdown?.groups.filter((g) => g.match) ?? [];
+  const stableford = round.format === "stableford";
+  const scored = card.scores.some((s) => holesPlayed(s.strokes) > 0);
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm"><ClipboardList className="h-4 w-4 mr-1"/>Scorecard{scored && <Badge variant="secondary" className="ml-1">live</Badge>}</Button>
+      </SheetTrigger>
+      <SheetContent side="bottom" className="max-h-[85vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{round.course} scorecard</SheetTitle>
+          <SheetDescription>{editMode ? "Enter strokes per hole; blank means not played yet." : "Turn on Edit to enter scores."}</SheetDescription>
+        </SheetHeader>
+        <div className="px-4 pb-6 space-y-4 text-sm">
+          {editMode && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={String(card.holes.length)} onValueChange={(v)=>setCard(resizeHoles(card, Number(v)))}>
+                <SelectTrigger size="sm"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="9">9 holes</SelectItem>
+                  <SelectItem value="18">18 holes</SelectItem>
+                </SelectContent>
+              </Select>
+              <label className="flex items-center gap-2">Stake per match $
+                <Input type="number" min={0} value={card.stake} onChange={(e)=>setCard({ ...card, stake: Math.max(0, Number(e.target.value) || 0) })} className="w-20" />
+              </label>
+              <label className="flex items-center gap-2">
+                <Switch checked={card.net} onCheckedChange={(net)=>setCard({ ...card, net })} />Net (handicap strokes)
+              </label>
+              <label className="flex items-center gap-2">Slope
+                <Input type="number" value={round.slope ?? ""} onChange={(e)=>onChange({ ...round, scorecard: card, slope: parseOptional(e.target.value) })} className="w-20" placeholder="113" />
+              </label>
+              <label className="flex items-center gap-2">Rating
+                <Input type="number" step="0.1" value={round.rating ?? ""} onChange={(e)=>onChange({ ...round, scorecard: card, rating: parseOptional(e.target.value) })} className="w-20" placeholder={String(totalPar)} />
+              </label>
+            </div>
+          )}
+          {card.scores.length === 0 ? (
+            <p className="text-muted-foreground">Add players to the pairings to keep score.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="text-sm border border-slate-200 rounded-md">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="text-left p-2 sticky left-0 bg-slate-50">Hole</th>
+                    {card.net && <th className="p-2 text-right" title="Course handicap">HCP</th>}
+                    {card.holes.map((_, i)=> <th key={i} className="p-1 w-10 text-center">{i + 1}</th>)}
+                    <th className="p-2 text-right">Total</th>
+                    <th className="p-2 text-right">To par</th>
+                    {card.net && <th className="p-2 text-right">Net</th>}
+                    <th className="p-2 text-right">{card.net ? "Net pts" : "Pts"}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-t text-muted-foreground">
+                    <td className="p-2 sticky left-0 bg-white">Par</td>
+                    {card.net && <td></td>}
+                    {card.holes.map((h, i)=> <td key={i} className="p-1 text-center">{editMode ? <Input value={h.par} onChange={(e)=>setHole(i, "par", e.target.value)} className={cellClass} aria-label={`Par hole ${i + 1}`} /> : h.par}</td>)}
+                    <td className="p-2 text-right">{totalPar}</td>
+                    <td></td>
+                    {card.net && <td></td>}
+                    <td></td>
+                  </tr>
+                  <tr className="border-t text-muted-foreground">
+                    <td className="p-2 sticky left-0 bg-white">SI</td>
+                    {card.net && <td></td>}
+                    {card.holes.map((h, i)=> <td key={i} className="p-1 text-center">{editMode ? <Input value={h.strokeIndex} onChange={(e)=>setHole(i, "strokeIndex", e.target.value)} className={cellClass} aria-label={`Stroke index hole ${i + 1}`} /> : h.strokeIndex}</td>)}
+                    <td></td>
+                    <td></td>
+                    {card.net && <td></td>}
+                    <td></td>
+                  </tr>
+                  {card.scores.map((s)=> {
+                    const score = scoreOf(s.player);
+                    // Dots mark the holes a player gets a stroke on
+                    const received = strokesReceived(score?.courseHandicap ?? 0, card.holes);
+                    return (
+                      <tr key={s.player} className="border-t">
+                        <td className="p-2 font-medium sticky left-0 bg-white whitespace-nowrap">{name(s.player)}</td>
+                        {card.net && <td className="p-2 text-right tabular-nums text-muted-foreground">{score?.courseHandicap ?? "—"}</td>}
+                        {s.strokes.map((x, i)=> (
+                          <td key={i} className="p-1 text-center tabular-nums relative">
+                            {editMode ? <Input inputMode="numeric" value={x ?? ""} onChange={(e)=>setStroke(s.player, i, e.target.value)} className={cellClass} aria-label={`${name(s.player)} hole ${i + 1}`} /> : x ?? "·"}
+                            {received[i] > 0 && <span className="absolute top-0 right-0.5 text-[10px] leading-none text-emerald-700">{"•".repeat(received[i])}</span>}
+                          </td>
+                        ))}
+                        <td className="p-2 text-right tabular-nums">{score?.thru ? score.gross : "—"}</td>
+                        <td className="p-2 text-right tabular-nums">{score?.thru ? fmtToPar(score.toPar) : "—"}</td>
+                        {card.net && <td className="p-2 text-right tabular-nums">{score?.thru ? score.net : "—"}</td>}
+                        <td className={`p-2 text-right tabular-nums ${stableford ? "font-medium" : ""}`}>{score?.thru ? score.points : "—"}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {matches.length > 0 && (
+            <ul className="space-y-1">
+              {matches.map((g)=> (
+                <li key={g.group.id}>
+                  {matchLabel(g.group.sides, participants)}: <span className="font-medium">{g.match!.status}</span>
+                  {card.net && <span className="text-xs text-muted-foreground"> (net)</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+          <SideGamesPanel event={event} participants={participants} editMode={editMode} onChange={onChange} />
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+// Per-round results shown beneath the leaderboard
+interface RoundBreakdownListProps {
+  breakdowns: RoundBreakdown[];
+  participants: Participant[];
+  display: ZoneContext;
+}
+export function RoundBreakdownList({ breakdowns, participants, display }: RoundBreakdownListProps) {
+  if (!breakdowns.length) return null;
+  return (
+    <section className="space-y-3">
+      <h3 className="text-base font-semibold">Round by round</h3>
+      <div className="grid md:grid-cols-2 gap-4">
+        {breakdowns.map((b)=> {
+          const award = (player: string) => b.awards.find((a)=>a.player===player);
+          return (
+            <Card key={b.event.id} className="border-muted/50">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm flex items-center justify-between gap-2">
+                  <span>{b.event.round.course}</span>
+                  <span className="text-xs font-normal text-muted-foreground">{formatDateTime(b.event.start, display)}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <table className="w-full">
+                  <thead className="text-xs text-muted-foreground">
+                    <tr>
+                      <th className="text-left">Player</th>
+                      <th className="text-right">Gross</th>
+                      <th className="text-right">To par</th>
+                      <th className="text-right">Thru</th>
+                      {b.event.round.scorecard?.net && <th className="text-right">Net</th>}
+                      <th className="text-right">Pts</th>
+                      <th className="text-right">Wins</th>
+                      <th className="text-right">$</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...b.players].sort((x, y)=> x.toPar - y.toPar).map((p)=> (
+                      <tr key={p.player} className="border-t tabular-nums">
+                        <td>{personName(participants, p.player)}</td>
+                        <td className="text-right">{p.thru ? p.gross : "—"}</td>
+                        <td className="text-right">{p.thru ? fmtToPar(p.toPar) : "—"}</td>
+                        <td className="text-right">{p.thru === b.event.round.scorecard?.holes.length ? "F" : p.thru}</td>
+                        {b.event.round.scorecard?.net && <td className="text-right">{p.thru ? p.net : "—"}</td>}
+                        <td className="text-right">{p.thru ? p.points : "—"}</td>
+                        <td className="text-right">{award(p.player)?.wins ?? 0}</td>
+                        <td className="text-right">{award(p.player)?.dollars ?? 0}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {b.groups.filter((g)=>g.match).map((g)=> (
+                  <div key={g.group.id} className="text-xs text-muted-foreground">
+                    {matchLabel(g.group.sides, participants)}: <span className="text-foreground">{g.match!.status}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { GolfRound, GolfRoundEvent, Participant, SideGame, SideGameKind } from "@/lib/types";
+import { SIDE_GAMES, emptySideGame, fmtMoney, gamePlayers, sideGameResults } from "@/lib/ledger";
+import { personName, personRef } from "@/lib/participants";
+
+// Blank means everyone on the card; committed on blur like the pairings
+function GamePlayersInput({ players, participants, onCommit }: { players: string[]; participants: Participant[]; onCommit: (players: string[]) => void }) {
+  const shown = players.map((p) => personName(participants, p)).join(", ");
+  const [text, setText] = useState<string>(shown);
+  useEffect(() => setText(shown), [shown]);
+  const onBlur = () => {
+    const list = text.split(",").map((s) => s.trim()).filter(Boolean);
+    if (list.join(", ") !== shown) onCommit(list.map((name) => personRef(participants, name)));
+  };
+  return <Input value={text} onChange={(e)=>setText(e.target.value)} onBlur={onBlur} placeholder="Everyone" className="flex-1 min-w-40" aria-label="Players" />;
+}
+
+interface SideGamesPanelProps {
+  event: GolfRoundEvent;
+  participants: Participant[];
+  editMode: boolean;
+  onChange: (round: GolfRound) => void;
+}
+export function SideGamesPanel({ event, participants, editMode, onChange }: SideGamesPanelProps) {
+  const round = event.round;
+  const games = round.games ?? [];
+  const results = sideGameResults(event, participants);
+  const name = (ref: string) => personName(participants, ref);
+  const setGames = (next: SideGame[]) => onChange({ ...round, games: next });
+  const updateGame = (id: string, patch: Partial<SideGame>) => setGames(games.map((g) => (g.id === id ? { ...g, ...patch } : g)));
+
+  if (!games.length && !editMode) return null;
+  return (
+    <div className="space-y-2">
+      <div className="font-medium">Side games</div>
+      {results.map(({ game, amounts, details })=> {
+        const players = gamePlayers(game, round);
+        const prize = game.kind === "closest" || game.kind === "longDrive";
+        return (
+          <div key={game.id} className="rounded-md border p-2 space-y-1">
+            {editMode ? (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium w-36">{SIDE_GAMES[game.kind]}</span>
+                <label className="flex items-center gap-1">$
+                  <Input type="number" min={0} value={game.stake} onChange={(e)=>updateGame(game.id, { stake: Math.max(0, Number(e.target.value) || 0) })} className="w-20" aria-label="Stake" />
+                </label>
+                {prize && (
+                  <label className="flex items-center gap-1">Hole
+                    <Input type="number" min={1} max={18} value={game.hole ?? ""} onChange={(e)=>updateGame(game.id, { hole: Number(e.target.value) || undefined })} className="w-16" />
+                  </label>
+                )}
+                <GamePlayersInput players={game.players} participants={participants} onCommit={(p)=>updateGame(game.id, { players: p })} />
+                {prize && (
+                  <Select value={game.winner ?? "none"} onValueChange={(v)=>updateGame(game.id, { winner: v === "none" ? undefined : v })}>
+                    <SelectTrigger size="sm"><SelectValue placeholder="Winner" /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No winner yet</SelectItem>
+                      {players.map((p)=> <SelectItem key={p} value={p}>{name(p)}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button variant="ghost" size="icon" onClick={()=>setGames(games.filter((g)=>g.id!==game.id))} title="Remove game"><Trash2 className="h-4 w-4"/></Button>
+              </div>
+            ) : (
+              <div className="font-medium">{SIDE_GAMES[game.kind]} <span className="text-xs font-normal text-muted-foreground">{fmtMoney(game.stake)}{game.players.length ? ` · ${game.players.map(name).join(", ")}` : ""}</span></div>
+            )}
+            <div className="text-xs text-muted-foreground">{details.join(" · ")}</div>
+            {amounts.some((a)=>a.amount) && (
+              <div className="text-xs space-x-3">
+                {amounts.filter((a)=>a.amount).map((a)=> <span key={a.player} className={a.amount > 0 ? "text-emerald-700" : "text-destructive"}>{name(a.player)} {a.amount > 0 ? "+" : ""}{fmtMoney(a.amount)}</span>)}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {editMode && (
+        <Select value="" onValueChange={(kind)=>setGames([...games, emptySideGame(kind as SideGameKind)])}>
+          <SelectTrigger size="sm" className="w-48"><Plus className="h-4 w-4"/><SelectValue placeholder="Add side game" /></SelectTrigger>
+          <SelectContent>
+            {Object.entries(SIDE_GAMES).map(([value, label])=> <SelectItem key={value} value={value}>{label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import React, { useState } from "react";
+import type { Leaderboard, Participant } from "@/lib/types";
+import { personName } from "@/lib/participants";
+import { formatBoardScore } from "@/lib/leaderboards";
+import { cumulativeSeries, type StandingsPoint } from "@/lib/standings";
+
+const COLORS = ["#1d4ed8", "#b91c1c", "#15803d", "#b45309", "#7c3aed", "#0e7490", "#be185d", "#4d7c0f", "#475569", "#c2410c"];
+
+const WIDTH = 560;
+const HEIGHT = 220;
+const PAD = { top: 12, right: 12, bottom: 28, left: 44 };
+
+interface StandingsChartProps {
+  board: Pick<Leaderboard, "sort" | "tieBreak" | "format">;
+  points: StandingsPoint[];
+  dayLabels: Map<string, string>;
+  participants: Participant[];
+}
+
+// Each player's cumulative score at the end of every day, drawn by hand since the app has no
+// chart library; hovering a name in the legend picks out that player's line
+export function StandingsChart({ board, points, dayLabels, participants }: StandingsChartProps) {
+  const [focus, setFocus] = useState<string>("");
+  const series = cumulativeSeries(board, points);
+  const format = (n: number) => formatBoardScore(board.format, n);
+  if (points.length < 2 || !series.length) return null;
+
+  const values = series.flatMap((s) => s.scores).filter((v): v is number => v !== null);
+  const low = Math.min(0, ...values);
+  const high = Math.max(0, ...values);
+  const span = high - low || 1;
+  const x = (i: number) => PAD.left + (i * (WIDTH - PAD.left - PAD.right)) / (points.length - 1);
+  // Leaders sit at the top whichever end of the board wins
+  const y = (v: number) => PAD.top + ((board.sort === "low" ? v - low : high - v) * (HEIGHT - PAD.top - PAD.bottom)) / span;
+  const label = (p: StandingsPoint) => (p.dayId ? dayLabels.get(p.dayId) ?? p.dayId : "Now");
+
+  // Breaks the line wherever the player wasn't on the board
+  const path = (scores: (number | null)[]) =>
+    scores.map((v, i) => (v === null ? "" : `${i > 0 && scores[i - 1] !== null ? "L" : "M"}${x(i).toFixed(1)},${y(v).toFixed(1)}`)).join(" ");
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Cumulative scores by day">
+        {[high, 0, low].filter((v, i, all)=>all.indexOf(v) === i).map((v)=> (
+          <g key={v}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(v)} y2={y(v)} stroke="#e2e8f0" strokeDasharray={v === 0 ? undefined : "3 3"} />
+            <text x={PAD.left - 6} y={y(v)} textAnchor="end" dominantBaseline="middle" fontSize="10" fill="#64748b">{format(v)}</text>
+          </g>
+        ))}
+        {points.map((p, i)=> (
+          <text key={i} x={x(i)} y={HEIGHT - 8} textAnchor={i === 0 ? "start" : i === points.length - 1 ? "end" : "middle"} fontSize="10" fill="#64748b">{label(p)}</text>
+        ))}
+        {series.map((s, i)=> (
+          <g key={s.player} opacity={focus && focus !== s.player ? 0.15 : 1}>
+            <path d={path(s.scores)} fill="none" stroke={COLORS[i % COLORS.length]} strokeWidth={focus === s.player ? 3 : 2} />
+            {s.scores.map((v, j)=> v !== null && <circle key={j} cx={x(j)} cy={y(v)} r={2.5} fill={COLORS[i % COLORS.length]}><title>{`${personName(participants, s.player)}, ${label(points[j])}: ${format(v)}`}</title></circle>)}
+          </g>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+        {series.map((s, i)=> (
+          <button key={s.player} type="button" className="flex items-center gap-1" onMouseEnter={()=>setFocus(s.player)} onMouseLeave={()=>setFocus("")} onFocus={()=>setFocus(s.player)} onBlur={()=>setFocus("")}>
+            <span className="inline-block h-2 w-3 rounded-sm" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+            {personName(participants, s.player)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, ArrowRight, Scale } from "lucide-react";
+import type { Itinerary } from "@/lib/types";
+import { fetchTrip } from "@/lib/trip-api";
+import { migrateItinerary } from "@/lib/migrations";
+import { expenseBalances, expenseSummary, expensesTotal, fmtCurrency } from "@/lib/expenses";
+import { settleUp } from "@/lib/ledger";
+import { personName } from "@/lib/participants";
+
+// Read-only view of who owes whom for shared expenses, in the trip's home currency
+export function TripBalances({ tripId }: { tripId: string }) {
+  const [itin, setItin] = useState<Itinerary | null>(null);
+  const [error, setError] = useState<string>("");
+  useEffect(() => {
+    fetchTrip(tripId)
+      .then((raw) => {
+        if (raw === null) setError(`There is no trip called “${tripId}” on this server.`);
+        else setItin(migrateItinerary(raw));
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [tripId]);
+
+  const back = `/trips/${encodeURIComponent(tripId)}`;
+  const money = (n: number) => (itin ? fmtCurrency(n, itin.homeCurrency, itin.locale) : "");
+  const balance = itin ? expenseBalances(itin) : new Map<string, number>();
+  const transfers = settleUp(balance);
+  const name = (ref: string) => (itin ? personName(itin.participants, ref) : ref);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-white">
+      <div className="sticky top-0 z-40 backdrop-blur bg-white/70 border-b">
+        <div className="max-w-3xl mx-auto px-4 py-3 flex items-center gap-2">
+          <Link href={back} title="Back to the trip"><ArrowLeft className="h-6 w-6" /></Link>
+          <div className="flex-1">
+            <div className="text-xl font-semibold leading-tight">Balances</div>
+            {itin && <div className="text-sm text-muted-foreground">{itin.tripTitle}</div>}
+          </div>
+        </div>
+      </div>
+
+      <main className="max-w-3xl mx-auto px-4 py-6 space-y-6">
+        {error && (
+          <Card>
+            <CardContent className="py-6 space-y-3 text-sm">
+              <p>{error}</p>
+              <Button asChild variant="outline"><Link href={back}><ArrowLeft className="h-4 w-4 mr-1"/>Back to the trip</Link></Button>
+            </CardContent>
+          </Card>
+        )}
+        {!itin && !error && <p className="text-sm text-muted-foreground">Loading…</p>}
+        {itin && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2"><Scale className="h-4 w-4"/>Who owes whom</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-2">
+                {transfers.length === 0 ? (
+                  <p className="text-muted-foreground">{itin.expenses.length ? "Everyone is square." : "No shared expenses logged yet."}</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {transfers.map((t)=> (
+                      <li key={`${t.from}-${t.to}`} className="flex items-center gap-2">
+                        <span>{name(t.from)}</span><ArrowRight className="h-3 w-3 text-muted-foreground"/><span>{name(t.to)}</span>
+                        <span className="font-medium tabular-nums ml-auto">{money(t.amount)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <p className="text-xs text-muted-foreground">Golf winnings are settled separately on the trip page.</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">By person <span className="font-normal text-muted-foreground">· {money(expensesTotal(itin))} in total</span></CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm">
+                <table className="w-full">
+                  <thead className="text-xs text-muted-foreground">
+                    <tr>
+                      <th className="text-left">Person</th>
+                      <th className="text-right">Paid</th>
+                      <th className="text-right">Share</th>
+                      <th className="text-right">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {expenseSummary(itin).map((r)=> {
+                      const left = balance.get(r.player) ?? 0;
+                      return (
+                        <tr key={r.player} className="border-t tabular-nums">
+                          <td>{name(r.player)}</td>
+                          <td className="text-right">{money(r.paid)}</td>
+                          <td className="text-right">{money(r.share)}</td>
+                          <td className={`text-right font-medium ${left > 0.004 ? "text-emerald-700" : left < -0.004 ? "text-destructive" : "text-muted-foreground"}`}>{money(left)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
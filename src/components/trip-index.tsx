@@ -0,0 +1,96 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarDays, Copy, Plus } from "lucide-react";
+import { createTrip, fetchTrips } from "@/lib/trip-api";
+import type { TripSummary } from "@/lib/trips";
+
+// Radix Select can't use "" as an item value, so a blank trip gets its own sentinel
+const BLANK = "__blank__";
+
+export function TripIndex() {
+  const router = useRouter();
+  const [trips, setTrips] = useState<TripSummary[] | null>(null);
+  const [error, setError] = useState<string>("");
+  const [title, setTitle] = useState<string>("");
+  const [source, setSource] = useState<string>(BLANK);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  useEffect(() => {
+    fetchTrips().then(setTrips).catch((err: Error) => setError(err.message));
+  }, []);
+
+  const onCreate = async (cloneFrom?: string, name?: string) => {
+    const tripTitle = (name ?? title).trim();
+    if (!tripTitle) return;
+    setBusy(true);
+    try {
+      const id = await createTrip({ title: tripTitle, cloneFrom });
+      router.push(`/trips/${id}`);
+    } catch (err) {
+      setError((err as Error).message);
+      setBusy(false);
+    }
+  };
+  const onClone = (t: TripSummary) => onCreate(t.id, `${t.tripTitle} (copy)`);
+  const onTitle = (e: React.ChangeEvent<HTMLInputElement>) => setTitle(e.target.value);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-white">
+      <div className="sticky top-0 z-40 backdrop-blur bg-white/70 border-b">
+        <div className="max-w-6xl mx-auto px-4 py-3 flex items-center gap-2">
+          <CalendarDays className="h-6 w-6" />
+          <div className="text-xl font-semibold leading-tight">Golf Trips</div>
+        </div>
+      </div>
+
+      <main className="max-w-6xl mx-auto px-4 py-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">New trip</CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-col md:flex-row gap-2">
+            <Input value={title} onChange={onTitle} placeholder="e.g. 2026 Hammer Cup, Scotland" />
+            <Select value={source} onValueChange={setSource}>
+              <SelectTrigger className="md:w-72"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BLANK}>Start from scratch</SelectItem>
+                {(trips || []).map((t) => (
+                  <SelectItem key={t.id} value={t.id}>Clone {t.tripTitle}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button disabled={busy || !title.trim()} onClick={()=>onCreate(source === BLANK ? undefined : source)}>
+              <Plus className="h-4 w-4 mr-1"/>Create
+            </Button>
+          </CardContent>
+        </Card>
+
+        {error && <div className="text-sm text-destructive">{error}</div>}
+
+        <div className="grid md:grid-cols-2 gap-4">
+          {trips === null && !error && <div className="text-sm text-muted-foreground">Loading trips…</div>}
+          {(trips || []).map((t) => (
+            <Card key={t.id} className="shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-lg">
+                  <Link href={`/trips/${t.id}`} className="hover:underline">{t.tripTitle || t.id}</Link>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="flex items-center justify-between gap-2">
+                <span className="text-sm text-muted-foreground">{t.subtitle}</span>
+                <Button variant="outline" size="sm" disabled={busy} onClick={()=>onClone(t)}><Copy className="h-4 w-4 mr-1"/>Clone</Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import type { Cup, EventItem, GolfRoundEvent, Itinerary, MatchFormat, MatchOutcome, RoundPlayer, TeeGroup } from "@/lib/types";
+import { isGolfRound } from "@/lib/golf-round";
+import { roundBreakdown } from "@/lib/scoring";
+import { participantHandicaps, playerRef } from "@/lib/participants";
+
+// --------------------
+// Team match play (the Hammer Cup)
+// --------------------
+export type TeamIndex = 0 | 1;
+
+export interface CupMatch {
+  event: GolfRoundEvent;
+  dayId: string;
+  group: TeeGroup;
+  format: MatchFormat;
+  players: [RoundPlayer[], RoundPlayer[]]; // in team order, whichever side of the group they were on
+  sideATeam: TeamIndex; // team playing as sides[0], to map hand-entered results back
+  winner: TeamIndex | "halved" | null; // null until decided
+  status: string; // "3&2", "won", "Halved", "2 up thru 12", "Not started"
+  fromScorecard: boolean;
+}
+
+export function defaultCup(name: string): Cup {
+  return {
+    name,
+    teams: [
+      { name: "Team Blue", captain: "", color: "#1d4ed8", players: [] },
+      { name: "Team Red", captain: "", color: "#b91c1c", players: [] },
+    ],
+  };
+}
+
+// Names not linked to a participant yet still match whatever their case or spacing
+const sameRef = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// The team most of a side's players are on, or null if it's mixed or unknown
+export function teamOfSide(cup: Cup, side: RoundPlayer[]): TeamIndex | null {
+  const count = (t: TeamIndex) => side.filter((p) => cup.teams[t].players.some((r) => sameRef(r, playerRef(p)))).length;
+  const [a, b] = [count(0), count(1)];
+  if (a === b) return null;
+  return a > b ? 0 : 1;
+}
+
+// Singles when it's one against one, otherwise whatever the round was set up as
+function matchFormat(evt: GolfRoundEvent, group: TeeGroup): MatchFormat {
+  return group.sides.every((s) => s.length === 1) ? "singles" : evt.round.format;
+}
+
+const OUTCOME_STATUS: Record<MatchOutcome, string> = { A: "won", B: "won", halved: "Halved" };
+
+// Every two-sided group whose sides belong to opposite teams is a cup match; a finished
+// scorecard decides it, otherwise the result typed in by hand
+export function cupMatches(itin: Itinerary): CupMatch[] {
+  const cup = itin.cup;
+  if (!cup) return [];
+  const out: CupMatch[] = [];
+  for (const day of itin.days) {
+    for (const evt of day.events.filter((e: EventItem): e is GolfRoundEvent => isGolfRound(e))) {
+      const breakdown = roundBreakdown(evt, participantHandicaps(itin.participants));
+      for (const group of evt.round.groups) {
+        if (group.sides.length !== 2) continue;
+        const teamA = teamOfSide(cup, group.sides[0]);
+        const teamB = teamOfSide(cup, group.sides[1]);
+        if (teamA === null || teamB === null || teamA === teamB) continue;
+        const players: [RoundPlayer[], RoundPlayer[]] = teamA === 0 ? [group.sides[0], group.sides[1]] : [group.sides[1], group.sides[0]];
+        const result = breakdown?.groups.find((g) => g.group.id === group.id);
+        const scored = !!result?.match && result.match.thru > 0;
+        let winner: CupMatch["winner"] = null;
+        let status = "Not started";
+        if (scored) {
+          status = result!.match!.status;
+          if (result!.final) winner = result!.match!.up === 0 ? "halved" : result!.match!.up > 0 ? teamA : teamB;
+        } else if (group.result) {
+          winner = group.result === "halved" ? "halved" : group.result === "A" ? teamA : teamB;
+          status = OUTCOME_STATUS[group.result];
+        }
+        out.push({ event: evt, dayId: day.id, group, format: matchFormat(evt, group), players, sideATeam: teamA, winner, status, fromScorecard: scored });
+      }
+    }
+  }
+  return out.sort((a, b) => new Date(a.group.teeTime).getTime() - new Date(b.group.teeTime).getTime());
+}
+
+// Hand-entered result for a team win (or a half), in the group's own side order
+export function outcomeFor(match: CupMatch, winner: TeamIndex | "halved"): MatchOutcome {
+  if (winner === "halved") return "halved";
+  return winner === match.sideATeam ? "A" : "B";
+}
+
+// Everyone in the pairings who isn't on a team yet
+export function unassignedPlayers(itin: Itinerary): string[] {
+  const cup = itin.cup;
+  if (!cup) return [];
+  const refs = itin.days.flatMap((d) => d.events).flatMap((e) => e.round?.groups ?? []).flatMap((g) => g.sides.flat().map(playerRef));
+  const onTeam = (ref: string) => cup.teams.some((t) => t.players.some((p) => sameRef(p, ref)));
+  return Array.from(new Set(refs.filter((r) => r.trim() && !onTeam(r))));
+}
+
+// A win is a point, a half is half a point each
+export function cupScore(matches: CupMatch[]): [number, number] {
+  return matches.reduce<[number, number]>(([a, b], m) => {
+    if (m.winner === "halved") return [a + 0.5, b + 0.5];
+    if (m.winner === 0) return [a + 1, b];
+    if (m.winner === 1) return [a, b + 1];
+    return [a, b];
+  }, [0, 0]);
+}
+
+// A team needs more than half the points on offer
+export function pointsToWin(matches: CupMatch[]): number {
+  return matches.length / 2 + 0.5;
+}
+
+// 3.5 → "3½"
+export function fmtPoints(n: number): string {
+  const whole = Math.floor(n);
+  return n - whole === 0.5 ? `${whole || ""}½` : `${whole}`;
+}
@@ -0,0 +1,105 @@
+import type { DayPlan, EventItem, Itinerary } from "@/lib/types";
+
+// --------------------
+// Itinerary diff (used to preview imports before they overwrite anything)
+// --------------------
+export type ChangeKind = "added" | "removed" | "changed";
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+export interface EventDiff {
+  kind: ChangeKind;
+  id: string;
+  title: string;
+  changes: FieldChange[];
+}
+export interface DayDiff {
+  kind: ChangeKind;
+  id: string;
+  city: string;
+  changes: FieldChange[];
+  events: EventDiff[];
+}
+export interface ItineraryDiff {
+  trip: FieldChange[];
+  days: DayDiff[];
+}
+
+const MAX_VALUE_LENGTH = 120;
+
+// One-line rendering of a field value for previews
+export function show(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  const text = typeof value === "string"
+    ? value
+    : Array.isArray(value) && value.every((v) => typeof v === "string")
+      ? value.join(", ")
+      : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+}
+
+// Shallow field-by-field comparison; nested values compare by their JSON
+function diffFields<T extends object>(before: T, after: T, skip: string[]): FieldChange[] {
+  const b = before as Record<string, unknown>;
+  const a = after as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(b), ...Object.keys(a)])).filter((k) => !skip.includes(k));
+  return keys
+    .filter((k) => JSON.stringify(b[k] ?? null) !== JSON.stringify(a[k] ?? null))
+    .map((k) => ({ field: k, before: show(b[k]), after: show(a[k]) }));
+}
+
+function byId<T extends { id: string }>(items: T[]): Map<string, T> {
+  return new Map(items.map((item) => [item.id, item]));
+}
+
+function diffEvents(before: EventItem[], after: EventItem[]): EventDiff[] {
+  const prev = byId(before);
+  const next = byId(after);
+  const out: EventDiff[] = [];
+  for (const e of after) {
+    const old = prev.get(e.id);
+    if (!old) out.push({ kind: "added", id: e.id, title: e.title, changes: [] });
+    else {
+      const changes = diffFields(old, e, ["id"]);
+      if (changes.length) out.push({ kind: "changed", id: e.id, title: e.title, changes });
+    }
+  }
+  for (const e of before) {
+    if (!next.has(e.id)) out.push({ kind: "removed", id: e.id, title: e.title, changes: [] });
+  }
+  return out;
+}
+
+function diffDays(before: DayPlan[], after: DayPlan[]): DayDiff[] {
+  const prev = byId(before);
+  const next = byId(after);
+  const out: DayDiff[] = [];
+  for (const d of after) {
+    const old = prev.get(d.id);
+    if (!old) {
+      out.push({ kind: "added", id: d.id, city: d.city, changes: [], events: diffEvents([], d.events) });
+      continue;
+    }
+    const changes = diffFields(old, d, ["id", "events"]);
+    const events = diffEvents(old.events, d.events);
+    if (changes.length || events.length) out.push({ kind: "changed", id: d.id, city: d.city, changes, events });
+  }
+  for (const d of before) {
+    if (!next.has(d.id)) out.push({ kind: "removed", id: d.id, city: d.city, changes: [], events: diffEvents(d.events, []) });
+  }
+  return out.sort((x, y) => x.id.localeCompare(y.id));
+}
+
+export function diffItineraries(current: Itinerary, incoming: Itinerary): ItineraryDiff {
+  return {
+    trip: diffFields(current, incoming, ["days", "schemaVersion"]),
+    days: diffDays(current.days, incoming.days),
+  };
+}
+
+export function isEmptyDiff(diff: ItineraryDiff): boolean {
+  return diff.trip.length === 0 && diff.days.length === 0;
+}
@@ -0,0 +1,82 @@
+import type { Currency, DayPlan, EventItem, Expense, Itinerary } from "@/lib/types";
+import { rosterIds } from "@/lib/participants";
+import { cents, totalsByPlayer } from "@/lib/ledger";
+
+// --------------------
+// Shared expenses
+// --------------------
+export const CURRENCIES: Record<Currency, string> = { EUR: "€", USD: "$", GBP: "£" };
+
+export function newExpenseId(): string {
+  return `exp-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+// Rates are stored against the dollar so changing the home currency doesn't rewrite them
+export function toHome(amount: number, currency: Currency, itin: Pick<Itinerary, "homeCurrency" | "exchangeRates">): number {
+  if (currency === itin.homeCurrency) return amount;
+  return (amount * itin.exchangeRates[currency]) / itin.exchangeRates[itin.homeCurrency];
+}
+
+// "1 EUR = 0.85 GBP" when GBP is home
+export function rateInHome(currency: Currency, itin: Pick<Itinerary, "homeCurrency" | "exchangeRates">): number {
+  return toHome(1, currency, itin);
+}
+export function withRateInHome(itin: Pick<Itinerary, "homeCurrency" | "exchangeRates">, currency: Currency, rate: number): Record<Currency, number> {
+  return { ...itin.exchangeRates, [currency]: rate * itin.exchangeRates[itin.homeCurrency] };
+}
+
+export function fmtCurrency(amount: number, currency: Currency, locale: string): string {
+  return new Intl.NumberFormat(locale, { style: "currency", currency }).format(amount);
+}
+
+// The event an expense was logged against is looked up wherever it has since moved to;
+// if it's been deleted the expense stays on its day
+export function expenseTarget(itin: Itinerary, expense: Expense): { day?: DayPlan; event?: EventItem } {
+  for (const day of itin.days) {
+    const event = expense.eventId ? day.events.find((e) => e.id === expense.eventId) : undefined;
+    if (event) return { day, event };
+  }
+  return { day: itin.days.find((d) => d.id === expense.dayId) };
+}
+
+export function splitOf(expense: Expense, roster: string[]): string[] {
+  return expense.splitAmong.length ? expense.splitAmong : roster;
+}
+
+// Each person's share in the home currency: the payer is owed the whole amount and everyone
+// in the split (payer included, if they're in it) owes an equal part
+export function expenseShares(expense: Expense, itin: Itinerary): { player: string; amount: number }[] {
+  const split = splitOf(expense, rosterIds(itin.participants));
+  if (!expense.paidBy || !split.length || !expense.amount) return [];
+  const total = toHome(expense.amount, expense.currency, itin);
+  return [
+    { player: expense.paidBy, amount: total },
+    ...split.map((player) => ({ player, amount: -total / split.length })),
+  ];
+}
+
+// Positive when the group owes the player, in the home currency
+export function expenseBalances(itin: Itinerary): Map<string, number> {
+  const totals = totalsByPlayer(itin.expenses.flatMap((e) => expenseShares(e, itin)));
+  for (const p of rosterIds(itin.participants)) if (!totals.has(p)) totals.set(p, 0);
+  return totals;
+}
+
+// What each person spent on the group and what their share of everything came to
+export function expenseSummary(itin: Itinerary): { player: string; paid: number; share: number }[] {
+  const rows = new Map<string, { player: string; paid: number; share: number }>();
+  const row = (player: string) => rows.get(player) ?? rows.set(player, { player, paid: 0, share: 0 }).get(player)!;
+  for (const p of rosterIds(itin.participants)) row(p);
+  for (const e of itin.expenses) {
+    for (const s of expenseShares(e, itin)) {
+      const r = row(s.player);
+      if (s.amount > 0) r.paid = cents(r.paid + s.amount);
+      else r.share = cents(r.share - s.amount);
+    }
+  }
+  return Array.from(rows.values());
+}
+
+export function expensesTotal(itin: Itinerary): number {
+  return cents(itin.expenses.reduce((sum, e) => sum + toHome(e.amount, e.currency, itin), 0));
+}
@@ -0,0 +1,87 @@
+import type { DayPlan, Itinerary } from "@/lib/types";
+import { DEFAULT_LOCALE, DEFAULT_TIME_ZONE } from "@/lib/timezone";
+
+// Zone + locale every on-screen date is rendered with
+export interface ZoneContext {
+  timeZone: string;
+  locale: string;
+}
+
+export function tripZone(itin: Itinerary): ZoneContext {
+  return { timeZone: itin?.timeZone || DEFAULT_TIME_ZONE, locale: itin?.locale || DEFAULT_LOCALE };
+}
+// Days on a multi-zone trip may override the trip's zone
+export function dayZone(itin: Itinerary, day: DayPlan): ZoneContext {
+  const trip = tripZone(itin);
+  return day.timeZone ? { ...trip, timeZone: day.timeZone } : trip;
+}
+
+// Format any date/time in the given zone for on-screen display
+export function formatDateTime(input: string | number | Date, zone: ZoneContext): string {
+  return new Date(input).toLocaleString(zone.locale, {
+    timeZone: zone.timeZone,
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+// Clock time only, e.g. tee times ("3:30 PM")
+export function formatTime(input: string | number | Date, zone: ZoneContext): string {
+  return new Date(input).toLocaleTimeString(zone.locale, { timeZone: zone.timeZone, timeStyle: "short" });
+}
+
+// Compute the day label from real timestamps (falls back to midday of the day id so
+// zones either side of UTC still land on the right date)
+export function formatDayLabel(day: DayPlan, zone: ZoneContext): string {
+  const dates = (day.events || [])
+    .map((e) => new Date(e.start))
+    .filter((d) => !isNaN(d.getTime()))
+    .sort((a, b) => a.getTime() - b.getTime());
+  const src = dates.length ? dates[0] : new Date(String(day.id) + "T12:00:00Z");
+  return src.toLocaleDateString(zone.locale, {
+    timeZone: zone.timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+// Trip subtitle helpers (date range in the trip's zone and locale)
+export function monthDay(d: Date, zone: ZoneContext): string {
+  return d.toLocaleDateString(zone.locale, { timeZone: zone.timeZone, month: "short", day: "numeric" });
+}
+export function formatTripDateRange(days: DayPlan[], zone: ZoneContext): string {
+  const starts: Date[] = [];
+  const ends: Date[] = [];
+  (days || []).forEach((day) => {
+    if (day?.events?.length) {
+      day.events.forEach((e) => { if (e?.start) starts.push(new Date(e.start)); if (e?.end) ends.push(new Date(e.end)); });
+    } else if (day?.id) {
+      const d = new Date(`${day.id}T12:00:00Z`);
+      starts.push(d); ends.push(d);
+    }
+  });
+  if (!starts.length || !ends.length) return "";
+  const start = new Date(Math.min(...starts.map(d=>d.getTime())));
+  const end = new Date(Math.max(...ends.map(d=>d.getTime())));
+  const { locale, timeZone } = zone;
+  const monthShort = (dt: Date) => dt.toLocaleDateString(locale, { timeZone, month:"short" });
+  const dayNum = (dt: Date) => dt.toLocaleDateString(locale, { timeZone, day:"numeric" });
+  const year = (dt: Date) => dt.toLocaleDateString(locale, { timeZone, year:"numeric" });
+  const sameYear = year(start) === year(end);
+  if (monthShort(start) === monthShort(end) && sameYear) {
+    return `${monthShort(start)} ${dayNum(start)}–${dayNum(end)}, ${year(end)}`;
+  }
+  if (sameYear) {
+    return `${monthDay(start, zone)} – ${monthDay(end, zone)}, ${year(end)}`;
+  }
+  return `${monthDay(start, zone)}, ${year(start)} – ${monthDay(end, zone)}, ${year(end)}`;
+}
+export function getSubtitlePrefix(itin: Itinerary): string {
+  return (itin?.subtitle || "").split("|")[0]?.trim() || "";
+}
+export function computedSubtitle(itin: Itinerary): string {
+  const range = formatTripDateRange(itin?.days || [], tripZone(itin));
+  const prefix = getSubtitlePrefix(itin);
+  return [prefix, range].filter(Boolean).join(" | ");
+}
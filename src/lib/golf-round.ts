@@ -0,0 +1,150 @@
+import type { EventItem, GolfRound, GolfRoundEvent, MatchFormat, Participant, RoundPlayer, TeeGroup } from "@/lib/types";
+import { extractTitleTimes, type TitleTime } from "@/lib/title-time";
+import { fromZonedInputValue, toZonedInputValue, wallClock, zonedDateKey } from "@/lib/timezone";
+import { personName, playerRef } from "@/lib/participants";
+
+// --------------------
+// Golf rounds: tee times, groups and pairings
+// --------------------
+export const MATCH_FORMATS: Record<MatchFormat, string> = {
+  fourball: "Four-ball",
+  foursomes: "Foursomes",
+  singles: "Singles",
+  strokeplay: "Stroke play",
+  stableford: "Stableford",
+  scramble: "Scramble",
+};
+
+const TEE_INTERVAL_MS = 10 * 60 * 1000;
+
+export function isGolfRound(evt: EventItem): evt is GolfRoundEvent {
+  return !!evt.round;
+}
+
+export function newGroupId(): string {
+  return `grp-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+// "Levin (9) + Probst (11)" ⇄ [{ name: "Levin", handicap: 9 }, { name: "Probst", handicap: 11 }]
+export function parsePlayers(text: string): RoundPlayer[] {
+  return text.split(/\s*[+&,]\s*|\s+and\s+/i).map((part) => part.trim()).filter(Boolean).map((part) => {
+    const m = /^(.*?)\s*\(\s*\+?(-?\d+(?:\.\d+)?)\s*\)$/.exec(part);
+    return m ? { name: m[1].trim(), handicap: Number(m[2]) } : { name: part };
+  });
+}
+// Linked players show under their participant's current name
+export function formatPlayers(players: RoundPlayer[], participants: Participant[] = []): string {
+  return players.map((p) => {
+    const name = personName(participants, playerRef(p));
+    return p.handicap === undefined ? name : `${name} (${p.handicap})`;
+  }).join(" + ");
+}
+
+// "A + B v. C + D" → two sides; a group without "v." is a single side
+export function parseSides(text: string): RoundPlayer[][] {
+  return text.split(/\s+vs?\.?\s+/i).map(parsePlayers).filter((side) => side.length > 0);
+}
+
+// Best guess at the format from the shape of the groups
+export function inferFormat(groups: TeeGroup[]): MatchFormat {
+  const matches = groups.filter((g) => g.sides.length === 2);
+  if (!matches.length) return "strokeplay";
+  return matches.every((g) => g.sides.every((s) => s.length === 1)) ? "singles" : "fourball";
+}
+
+// The group after the latest one, TEE_INTERVAL_MS later (or at the event's start for the first)
+export function nextTeeGroup(groups: TeeGroup[], eventStart: string): TeeGroup {
+  const last = Math.max(...groups.map((g) => new Date(g.teeTime).getTime()).filter((t) => !isNaN(t)));
+  const t = Number.isFinite(last) ? last + TEE_INTERVAL_MS : new Date(eventStart).getTime();
+  return { id: newGroupId(), teeTime: new Date(isNaN(t) ? Date.now() : t).toISOString(), sides: [] };
+}
+
+// Plain-text tee sheet for calendar descriptions: "Royal Dublin, Four-ball\n15:30 Levin (9) + Probst (11) v. …"
+export function roundDescription(round: GolfRound, timeZone: string, participants: Participant[] = []): string {
+  const groups = [...round.groups]
+    .sort((a, b) => new Date(a.teeTime).getTime() - new Date(b.teeTime).getTime())
+    .map((g) => `${toZonedInputValue(g.teeTime, timeZone).slice(11)} ${g.sides.map((side) => formatPlayers(side, participants)).join(" v. ")}`.trim());
+  return [`${round.course}, ${MATCH_FORMATS[round.format]}`, ...groups].join("\n");
+}
+
+export function emptyRound(evt: EventItem): GolfRound {
+  return { course: courseFromTitle(evt.title) || evt.location, format: "strokeplay", groups: [nextTeeGroup([], evt.start)] };
+}
+
+// --------------------
+// Reading the free-text format rounds used to be written in
+// --------------------
+// Title up to the first dash, time in parentheses or "Tee Time": "Royal Dublin (3:30pm | 3:40) — …" → "Royal Dublin"
+export function courseFromTitle(title: string): string {
+  return title.split(/\s+[—–-]\s+|\s*\(\s*[~\d]|\s+tee time/i)[0].trim();
+}
+
+// "(3:30pm | 3:40)", "Tee Time 2:00 PM", "Tee times: 12:32 PM & 12:40 PM"
+export function teeTimesIn(text: string): TitleTime[] {
+  const slots = /\(([^()]*\d[^()]*\|[^()]*)\)/.exec(text);
+  if (slots) return extractTitleTimes(slots[1]);
+  const tee = /tee times?:?\s*(~?\s*\d[^).;—]*)/i.exec(text);
+  return tee ? extractTitleTimes(tee[1]) : [];
+}
+
+interface LegacyPairing {
+  time: TitleTime;
+  sides: RoundPlayer[][];
+}
+
+// End of the sentence starting at `from`, not counting the period of "v." / "vs."
+function sentenceEnd(text: string, from: number): number {
+  for (const m of text.slice(from).matchAll(/\.(?=\s|$)/g)) {
+    const i = from + (m.index ?? 0);
+    if (!/\bvs?$/i.test(text.slice(Math.max(0, i - 3), i))) return i;
+  }
+  return text.length;
+}
+
+// "Pairings: 3:30 Levin (9) + Probst (11) v. Moran (23) + McConnell (15). 3:40 …";
+// returns the groups found and the notes with those sentences removed
+export function parsePairings(notes: string): { pairings: LegacyPairing[]; rest: string } {
+  const label = /pairi?n?g?s?:\s*/i.exec(notes);
+  if (!label) return { pairings: [], rest: notes };
+  const pairings: LegacyPairing[] = [];
+  let pos = label.index + label[0].length;
+  for (;;) {
+    const m = /^(\d{1,2}:\d{2}\s*(?:[ap]\.?m\b\.?)?)\s+/i.exec(notes.slice(pos));
+    const [time] = m ? extractTitleTimes(m[1]) : [];
+    if (!m || !time) break;
+    const end = sentenceEnd(notes, pos + m[0].length);
+    pairings.push({ time, sides: parseSides(notes.slice(pos + m[0].length, end)) });
+    pos = end + 1;
+    while (/\s/.test(notes[pos] ?? "")) pos++;
+  }
+  if (!pairings.length) return { pairings, rest: notes };
+  return { pairings, rest: `${notes.slice(0, label.index)}${notes.slice(pos)}`.trim() };
+}
+
+// A clock time without am/pm is read as whichever half of the day is nearer the event's start
+function teeTimeISO(t: TitleTime, evt: EventItem, timeZone: string): string {
+  const date = zonedDateKey(evt.start, timeZone);
+  let hour = t.hour;
+  if (!t.meridiem && hour <= 12) {
+    const startHour = wallClock(evt.start, timeZone).hour;
+    const am = hour % 12;
+    hour = Math.abs(am - startHour) <= Math.abs(am + 12 - startHour) ? am : am + 12;
+  }
+  return fromZonedInputValue(`${date}T${String(hour).padStart(2, "0")}:${String(t.minute).padStart(2, "0")}`, timeZone);
+}
+
+// Builds a round for a golf-tagged event from its title, its notes and (for tee times only)
+// its day's notes; the parsed pairings sentence is dropped from the event notes
+export function legacyRound(evt: EventItem, dayNotes: string, timeZone: string): EventItem {
+  if (evt.round || !evt.tags?.includes("golf") || isNaN(new Date(evt.start).getTime())) return evt;
+  const { pairings, rest } = parsePairings(evt.notes ?? "");
+  const times = pairings.length ? pairings.map((p) => p.time) : teeTimesIn(evt.title).length ? teeTimesIn(evt.title) : teeTimesIn(dayNotes);
+  const groups: TeeGroup[] = times.map((time, i) => ({
+    id: `${evt.id}-g${i + 1}`,
+    teeTime: teeTimeISO(time, evt, timeZone),
+    sides: pairings[i]?.sides ?? [],
+  }));
+  const out: EventItem = { ...evt, round: { course: courseFromTitle(evt.title) || evt.location, format: inferFormat(groups), groups } };
+  if (rest) out.notes = rest; else delete out.notes;
+  return out;
+}
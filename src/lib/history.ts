@@ -0,0 +1,134 @@
+import type { Itinerary } from "@/lib/types";
+import { applyOps, describePath, diffOps, inverseOps, valueAt, type Operation } from "@/lib/operations";
+import { formatDateTime, tripZone } from "@/lib/format";
+import { show } from "@/lib/diff";
+
+// --------------------
+// Undo and redo for this page's edits
+// --------------------
+// A step keeps the operations it made and the ones that take it back, so undoing one edit leaves
+// whatever other people changed in the meantime alone.
+const MAX_UNDO_STEPS = 100;
+const GROUP_MS = 1500; // typing into one field within this window undoes as a single step
+
+export interface UndoStep {
+  ops: Operation[];
+  inverse: Operation[];
+  at: number; // ms
+}
+
+export interface UndoStack {
+  past: UndoStep[]; // oldest first
+  future: UndoStep[]; // undone steps, most recently undone last
+}
+
+export const EMPTY_UNDO: UndoStack = { past: [], future: [] };
+
+function sameFields(a: Operation[], b: Operation[]): boolean {
+  return a.length === b.length && a.every((op, i) => op.op === "set" && b[i]!.op === "set" && JSON.stringify(op.path) === JSON.stringify(b[i]!.path));
+}
+
+// A new edit clears what could be redone
+export function recordEdit(stack: UndoStack, before: Itinerary, after: Itinerary, at: number): UndoStack {
+  const ops = diffOps(before, after);
+  if (!ops.length) return stack;
+  const last = stack.past[stack.past.length - 1];
+  if (last && at - last.at < GROUP_MS && sameFields(last.ops, ops)) {
+    return { past: [...stack.past.slice(0, -1), { ops, inverse: last.inverse, at }], future: [] };
+  }
+  return { past: [...stack.past, { ops, inverse: inverseOps(before, ops), at }].slice(-MAX_UNDO_STEPS), future: [] };
+}
+
+export function undoEdit(stack: UndoStack, itin: Itinerary): { stack: UndoStack; itin: Itinerary } | null {
+  const step = stack.past[stack.past.length - 1];
+  if (!step) return null;
+  return { itin: applyOps(itin, step.inverse), stack: { past: stack.past.slice(0, -1), future: [...stack.future, step] } };
+}
+
+export function redoEdit(stack: UndoStack, itin: Itinerary): { stack: UndoStack; itin: Itinerary } | null {
+  const step = stack.future[stack.future.length - 1];
+  if (!step) return null;
+  return { itin: applyOps(itin, step.ops), stack: { past: [...stack.past, { ...step, at: 0 }], future: stack.future.slice(0, -1) } };
+}
+
+// --------------------
+// The saved change log, readably
+// --------------------
+// What the server's change log keeps for each save
+export interface LogEntry {
+  revision: number;
+  at: string; // ISO time
+  author: string;
+  ops: Operation[];
+  inverse: Operation[];
+}
+
+export interface ChangeSummary {
+  revision: number; // the trip's revision once this change was saved
+  at: string;
+  author: string;
+  lines: string[]; // "changed Event Waterville › start 8:10 AM → 8:30 AM"
+  restorable: boolean; // whether the trip as of this change can still be rebuilt
+}
+
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+function showValue(itin: Itinerary, value: unknown): string {
+  if (typeof value === "string" && ISO_DATE_TIME.test(value) && !isNaN(Date.parse(value))) return formatDateTime(value, tripZone(itin));
+  return show(value);
+}
+
+function describeOp(before: Itinerary, after: Itinerary, op: Operation): string[] {
+  if (op.op === "set" && !op.path.length) {
+    const details = diffOps(before, after).filter((o) => o.path.length);
+    return details.length ? ["replaced the whole trip", ...details.flatMap((o) => describeOp(before, after, o))] : ["replaced the whole trip"];
+  }
+  if (op.op === "insert") return [`added ${describePath(after, [...op.path, ...insertedRef(op.value)])}`];
+  if (op.op === "remove") return [`removed ${describePath(before, op.path)}`];
+  const was = valueAt(before, op.path);
+  if (op.value === undefined) return [`cleared ${describePath(before, op.path)} (was ${showValue(before, was)})`];
+  return [`changed ${describePath(after, op.path)} ${showValue(before, was)} → ${showValue(after, op.value)}`];
+}
+
+// The path segment naming an inserted item, so it's described by its own name
+function insertedRef(item: unknown): Operation["path"] {
+  if (typeof item === "string") return [{ value: item }];
+  if (typeof item === "object" && item !== null) {
+    const { id, player } = item as { id?: unknown; player?: unknown };
+    if (typeof id === "string") return [{ id }];
+    if (typeof player === "string") return [{ player }];
+  }
+  return [];
+}
+
+// Newest first. Each entry is described against the trip as it stood just before and after it,
+// rebuilt by undoing later entries from the current trip.
+export function summarizeLog(trip: Itinerary, entries: LogEntry[]): ChangeSummary[] {
+  const out: ChangeSummary[] = [];
+  let state: Itinerary | null = trip;
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i]!;
+    const after: Itinerary | null = state;
+    const before: Itinerary | null = after && entry.inverse.length ? applyOps(after, entry.inverse) : null;
+    // Without the trip on both sides (first upload, or past one) only the size of the change is known
+    const lines = after && before
+      ? entry.ops.flatMap((op) => describeOp(before, after, op))
+      : entry.ops.length === 1 && !entry.ops[0]!.path.length ? ["saved the whole trip"] : [`made ${entry.ops.length} change${entry.ops.length !== 1 ? "s" : ""}`];
+    out.push({ revision: entry.revision, at: entry.at, author: entry.author, lines, restorable: after !== null });
+    state = before;
+  }
+  return out;
+}
+
+// The trip as it was at `revision`, or null when the log doesn't reach back that far
+export function versionAt(trip: Itinerary, entries: LogEntry[], current: number, revision: number): Itinerary | null {
+  if (revision === current) return trip;
+  if (revision > current || revision < 1) return null;
+  let state = trip;
+  for (let r = current; r > revision; r--) {
+    const entry = entries.find((e) => e.revision === r);
+    if (!entry || !entry.inverse.length) return null;
+    state = applyOps(state, entry.inverse);
+  }
+  return state;
+}
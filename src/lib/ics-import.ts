@@ -0,0 +1,250 @@
+import type { DayPlan, EventItem, Itinerary } from "@/lib/types";
+import { eventUID } from "@/lib/ics";
+import { roundDescription } from "@/lib/golf-round";
+import { newEventId, sortDays, sortEvents, withSequenceBump } from "@/lib/itinerary-ops";
+import { fromZonedInputValue, isValidTimeZone, zonedDateKey } from "@/lib/timezone";
+
+// --------------------
+// iCalendar (RFC 5545) import
+// --------------------
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EVENT_MS = 60 * 60 * 1000;
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface ParsedVEvent {
+  uid?: string;
+  title: string; // "" when the VEVENT has no SUMMARY
+  location?: string;
+  start: string;
+  end: string;
+  notes?: string;
+  url?: string;
+  tags?: string[];
+  sequence?: number;
+  cancelled: boolean;
+  timeZone: string; // zone the event was booked in; decides which day it lands on
+}
+
+export interface ParsedCalendar {
+  events: ParsedVEvent[];
+  warnings: string[];
+}
+
+// Continuation lines start with a space or tab (§3.1)
+export function unfoldLines(text: string): string[] {
+  return text.replace(/\r\n|\r/g, "\n").replace(/\n[ \t]/g, "").split("\n").filter((l) => l.trim() !== "");
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === "n" || ch === "N" ? "\n" : ch));
+}
+
+// NAME;PARAM=value;PARAM="quoted:value":VALUE — the first colon outside quotes ends the parameters
+function parseContentLine(line: string): ContentLine | null {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === "\"") quoted = !quoted;
+    else if (line[i] === ":" && !quoted) { colon = i; break; }
+  }
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  for (const p of rawParams) {
+    const eq = p.indexOf("=");
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// TZIDs are usually IANA names, sometimes with a vendor prefix ("/mozilla.org/20050126_1/Europe/Dublin")
+function resolveZone(tzid: string | undefined, fallback: string): string {
+  if (!tzid) return fallback;
+  const clean = tzid.replace(/^\/+/, "");
+  if (isValidTimeZone(clean)) return clean;
+  const tail = clean.split("/").slice(-2).join("/");
+  return isValidTimeZone(tail) ? tail : fallback;
+}
+
+interface ParsedDate {
+  iso: string;
+  allDay: boolean;
+}
+
+// DATE (20250907), UTC DATE-TIME (20250907T130000Z) or local DATE-TIME read in `timeZone`
+function parseICSDate(value: string, params: Record<string, string>, timeZone: string): ParsedDate | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s, utc] = m;
+  if (h === undefined || params.VALUE === "DATE") {
+    const iso = fromZonedInputValue(`${y}-${mo}-${d}T00:00`, timeZone);
+    return iso ? { iso, allDay: true } : null;
+  }
+  if (utc) return { iso: new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)).toISOString(), allDay: false };
+  const iso = fromZonedInputValue(`${y}-${mo}-${d}T${h}:${mi}`, timeZone);
+  return iso ? { iso, allDay: false } : null;
+}
+
+// DURATION values such as PT2H30M or P1D (§3.3.6); null when unparseable
+function parseDuration(value: string): number | null {
+  const m = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!m) return null;
+  const [, sign, w, d, h, mi, s] = m;
+  const ms = ((+(w ?? 0) * 7 + +(d ?? 0)) * 24 * 3600 + +(h ?? 0) * 3600 + +(mi ?? 0) * 60 + +(s ?? 0)) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+function toVEvent(lines: ContentLine[], calendarZone: string, warnings: string[]): ParsedVEvent | null {
+  const prop = (name: string) => lines.find((l) => l.name === name);
+  const text = (name: string) => { const l = prop(name); return l ? unescapeText(l.value).trim() : undefined; };
+  const title = text("SUMMARY") ?? "";
+  const dtstart = prop("DTSTART");
+  const timeZone = resolveZone(dtstart?.params.TZID, calendarZone);
+  const start = dtstart ? parseICSDate(dtstart.value, dtstart.params, timeZone) : null;
+  if (!start) {
+    warnings.push(`Skipped "${title || "Event"}": missing or unreadable DTSTART.`);
+    return null;
+  }
+  // DTEND, else DURATION, else one day for all-day events and an hour otherwise
+  const dtend = prop("DTEND");
+  const endDate = dtend ? parseICSDate(dtend.value, dtend.params, resolveZone(dtend.params.TZID, calendarZone)) : null;
+  const duration = prop("DURATION") ? parseDuration(prop("DURATION")!.value) : null;
+  const startMs = new Date(start.iso).getTime();
+  const endMs = endDate ? new Date(endDate.iso).getTime() : startMs + (duration ?? (start.allDay ? DAY_MS : DEFAULT_EVENT_MS));
+  if (prop("RRULE")) warnings.push(`"${title || "Event"}" repeats; only its first occurrence was imported.`);
+
+  const evt: ParsedVEvent = {
+    title,
+    start: start.iso,
+    end: new Date(Math.max(endMs, startMs)).toISOString(),
+    cancelled: prop("STATUS")?.value.trim().toUpperCase() === "CANCELLED",
+    timeZone,
+  };
+  const uid = prop("UID")?.value.trim();
+  if (uid) evt.uid = uid;
+  const location = text("LOCATION");
+  if (location) evt.location = location;
+  const notes = text("DESCRIPTION");
+  if (notes) evt.notes = notes;
+  const url = prop("URL")?.value.trim();
+  if (url) evt.url = url;
+  const categories = lines.filter((l) => l.name === "CATEGORIES")
+    .flatMap((l) => l.value.replace(/\\,/g, "\u0000").split(",").map((c) => unescapeText(c.replace(/\u0000/g, "\\,")).trim()))
+    .filter(Boolean);
+  if (categories.length) evt.tags = Array.from(new Set(categories));
+  const sequence = Number(prop("SEQUENCE")?.value);
+  if (Number.isFinite(sequence)) evt.sequence = sequence;
+  return evt;
+}
+
+// Reads every VEVENT; floating times use the calendar's X-WR-TIMEZONE, else `fallbackZone`
+export function parseICS(text: string, fallbackZone: string): ParsedCalendar {
+  const lines = unfoldLines(text).map(parseContentLine).filter((l): l is ContentLine => l !== null);
+  if (!lines.some((l) => l.name === "BEGIN" && l.value.trim().toUpperCase() === "VCALENDAR")) {
+    throw new Error("This isn't an iCalendar file (no BEGIN:VCALENDAR).");
+  }
+  const calendarZone = resolveZone(lines.find((l) => l.name === "X-WR-TIMEZONE")?.value.trim(), fallbackZone);
+  const cancelAll = lines.find((l) => l.name === "METHOD")?.value.trim().toUpperCase() === "CANCEL";
+  const warnings: string[] = [];
+  const events: ParsedVEvent[] = [];
+
+  // Only properties directly inside a VEVENT count; nested VALARMs are skipped
+  const stack: string[] = [];
+  let current: ContentLine[] | null = null;
+  for (const line of lines) {
+    const component = line.value.trim().toUpperCase();
+    if (line.name === "BEGIN") {
+      stack.push(component);
+      if (component === "VEVENT") current = [];
+    } else if (line.name === "END") {
+      stack.pop();
+      if (component === "VEVENT" && current) {
+        const evt = toVEvent(current, calendarZone, warnings);
+        if (evt) events.push(cancelAll ? { ...evt, cancelled: true } : evt);
+        current = null;
+      }
+    } else if (current && stack.at(-1) === "VEVENT") {
+      current.push(line);
+    }
+  }
+  return { events, warnings };
+}
+
+// --------------------
+// Merging into an itinerary
+// --------------------
+const sameInstant = (a: string, b: string) => new Date(a).getTime() === new Date(b).getTime();
+
+export interface ICSMergeResult {
+  itinerary: Itinerary;
+  warnings: string[];
+}
+
+// Events whose UID matches an existing one update it in place (keeping attendees, other app-only
+// fields and anything the file leaves out); cancelled events remove their match; everything else
+// is added on the local date it starts on, creating days as needed
+export function mergeICS(itin: Itinerary, tripId: string, calendar: ParsedCalendar): ICSMergeResult {
+  const warnings = [...calendar.warnings];
+  const days = new Map<string, DayPlan>(itin.days.map((d) => [d.id, { ...d, events: [...d.events] }]));
+  const byUID = new Map<string, { dayId: string; evt: EventItem }>();
+  for (const d of itin.days) for (const evt of d.events) byUID.set(eventUID(tripId, evt), { dayId: d.id, evt });
+
+  const place = (evt: EventItem, timeZone: string) => {
+    const key = zonedDateKey(evt.start, timeZone);
+    const day = days.get(key) ?? { id: key, city: "", events: [] };
+    day.events.push(evt);
+    days.set(key, day);
+    return key;
+  };
+  const take = (dayId: string, evtId: string) => {
+    const day = days.get(dayId);
+    if (day) day.events = day.events.filter((e) => e.id !== evtId);
+  };
+
+  for (const parsed of calendar.events) {
+    const match = parsed.uid ? byUID.get(parsed.uid) : undefined;
+    if (parsed.cancelled) {
+      if (match) take(match.dayId, match.evt.id);
+      else warnings.push(`Skipped cancelled "${parsed.title || "Event"}": it isn't in this trip.`);
+      continue;
+    }
+    if (match) {
+      const old = match.evt;
+      const next: EventItem = {
+        ...old,
+        title: parsed.title || old.title,
+        // Same instant written differently (…:00Z vs …:00.000Z) isn't a change
+        start: sameInstant(old.start, parsed.start) ? old.start : parsed.start,
+        end: sameInstant(old.end, parsed.end) ? old.end : parsed.end,
+      };
+      if (parsed.location) next.location = parsed.location;
+      // Our own exports put the tee sheet ahead of the notes
+      const teeSheet = old.round ? roundDescription(old.round, parsed.timeZone, itin.participants) : "";
+      const notes = teeSheet && parsed.notes?.startsWith(teeSheet) ? parsed.notes.slice(teeSheet.length).trim() : parsed.notes;
+      if (notes) next.notes = notes;
+      if (parsed.url) next.url = parsed.url;
+      if (parsed.tags) next.tags = parsed.tags;
+      const merged = withSequenceBump(old, next);
+      if ((parsed.sequence ?? 0) > (merged.sequence ?? 0)) merged.sequence = parsed.sequence;
+      take(match.dayId, old.id);
+      byUID.set(parsed.uid!, { dayId: place(merged, parsed.timeZone), evt: merged });
+    } else {
+      const evt: EventItem = { id: newEventId(), title: parsed.title || "Event", location: parsed.location ?? "", start: parsed.start, end: parsed.end };
+      if (parsed.notes) evt.notes = parsed.notes;
+      if (parsed.url) evt.url = parsed.url;
+      if (parsed.tags) evt.tags = parsed.tags;
+      if (parsed.uid) evt.uid = parsed.uid;
+      if (parsed.sequence) evt.sequence = parsed.sequence;
+      const dayId = place(evt, parsed.timeZone);
+      if (parsed.uid) byUID.set(parsed.uid, { dayId, evt });
+    }
+  }
+
+  const merged = Array.from(days.values()).map((d) => ({ ...d, events: sortEvents(d.events) }));
+  return { itinerary: { ...itin, days: sortDays(merged) }, warnings };
+}
@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import type { EventItem, Itinerary } from "@/lib/types";
+import { buildICS, buildICSEvent, buildVTimezone, escapeText, eventUID, foldLine } from "@/lib/ics";
+import { updateEvent } from "@/lib/itinerary-ops";
+import { blankItinerary } from "@/lib/trips";
+
+const octets = (s: string) => new TextEncoder().encode(s).length;
+const unfold = (s: string) => s.replace(/\r\n /g, "");
+
+const evt = (patch: Partial<EventItem> = {}): EventItem => ({
+  id: "evt-1",
+  title: "Royal Dublin",
+  location: "Dollymount",
+  start: "2025-09-07T13:30:00Z",
+  end: "2025-09-07T18:30:00Z",
+  tags: ["golf"],
+  ...patch,
+});
+
+function trip(events: EventItem[]): Itinerary {
+  return {
+    ...blankItinerary("Hammer Cup"),
+    timeZone: "Europe/Dublin",
+    reminders: [{ tag: "golf", minutesBefore: 90 }],
+    days: [{ id: "2025-09-07", city: "Dublin", events }],
+  };
+}
+
+const NOW = new Date("2025-09-01T12:00:00Z");
+
+describe("escapeText", () => {
+  it("escapes backslash, semicolon and comma (RFC 5545 §3.3.11)", () => {
+    expect(escapeText("a\\b;c,d")).toBe("a\\\\b\\;c\\,d");
+  });
+
+  it("turns every kind of line break into \\n", () => {
+    expect(escapeText("one\r\ntwo\nthree\rfour")).toBe("one\\ntwo\\nthree\\nfour");
+  });
+
+  it("escapes the backslash before the characters it introduces", () => {
+    expect(escapeText("\\,")).toBe("\\\\\\,");
+  });
+});
+
+describe("foldLine", () => {
+  it("leaves lines of up to 75 octets alone", () => {
+    const line = "x".repeat(75);
+    expect(foldLine(line)).toBe(line);
+  });
+
+  it("folds at 75 octets with CRLF and a single space", () => {
+    const folded = foldLine("x".repeat(76));
+    expect(folded).toBe(`${"x".repeat(75)}\r\n x`);
+  });
+
+  it("counts the leading space toward continuation lines", () => {
+    const physical = foldLine("y".repeat(200)).split("\r\n");
+    expect(physical.map(octets)).toEqual([75, 75, 52]); // 75 + 74 + 51 characters
+    expect(physical.slice(1).every((l) => l.startsWith(" "))).toBe(true);
+  });
+
+  it("counts octets, not characters, and never splits a multi-byte character", () => {
+    const line = `SUMMARY:${"é".repeat(40)}`; // 8 + 80 octets
+    const physical = foldLine(line).split("\r\n");
+    expect(physical.every((l) => octets(l) <= 75)).toBe(true);
+    expect(physical[0]).toBe(`SUMMARY:${"é".repeat(33)}`); // 74 octets; the next é would make 76
+    expect(unfold(foldLine(line))).toBe(line);
+  });
+
+  it("keeps four-byte characters whole", () => {
+    const line = `DESCRIPTION:${"⛳🏌️".repeat(20)}`;
+    const folded = foldLine(line);
+    expect(folded.split("\r\n").every((l) => octets(l) <= 75)).toBe(true);
+    expect(folded).not.toContain("�");
+    expect(unfold(folded)).toBe(line);
+  });
+});
+
+describe("buildICS", () => {
+  it("ends every line with CRLF and has no bare line feeds", () => {
+    const ics = buildICS(trip([evt({ notes: "Bring\nwaterproofs" })]), { tripId: "hammer-cup-2025", now: NOW });
+    expect(ics.endsWith("\r\n")).toBe(true);
+    expect(ics.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+    expect(ics).toContain("DESCRIPTION:Bring\\nwaterproofs\r\n");
+  });
+
+  it("wraps events in a calendar with a VTIMEZONE for the zone they use", () => {
+    const lines = buildICS(trip([evt()]), { tripId: "hammer-cup-2025", now: NOW }).split("\r\n");
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines).toContain("VERSION:2.0");
+    expect(lines).toContain("TZID:Europe/Dublin");
+    expect(lines).toContain("DTSTART;TZID=Europe/Dublin:20250907T143000");
+    expect(lines.indexOf("BEGIN:VTIMEZONE")).toBeLessThan(lines.indexOf("BEGIN:VEVENT"));
+  });
+
+  it("folds long lines", () => {
+    const ics = buildICS(trip([evt({ notes: "n".repeat(300) })]), { tripId: "t", now: NOW });
+    expect(ics.split("\r\n").every((l) => octets(l) <= 75)).toBe(true);
+  });
+});
+
+describe("buildVTimezone", () => {
+  const from = Date.parse("2025-09-06T00:00:00Z");
+  const to = Date.parse("2025-09-13T00:00:00Z");
+
+  it("lists each offset change in the year before the events, in the offset being left", () => {
+    const lines = buildVTimezone("Europe/Dublin", from, to);
+    expect(lines).toEqual([
+      "BEGIN:VTIMEZONE",
+      "TZID:Europe/Dublin",
+      "BEGIN:DAYLIGHT", "DTSTART:19700101T000000", "TZOFFSETFROM:+0100", "TZOFFSETTO:+0100", "END:DAYLIGHT",
+      "BEGIN:STANDARD", "DTSTART:20241027T020000", "TZOFFSETFROM:+0100", "TZOFFSETTO:+0000", "END:STANDARD",
+      "BEGIN:DAYLIGHT", "DTSTART:20250330T010000", "TZOFFSETFROM:+0000", "TZOFFSETTO:+0100", "END:DAYLIGHT",
+      "END:VTIMEZONE",
+    ]);
+  });
+
+  it("includes a transition that falls inside the events' span", () => {
+    const lines = buildVTimezone("America/New_York", Date.parse("2025-10-30T00:00:00Z"), Date.parse("2025-11-05T00:00:00Z"));
+    const i = lines.indexOf("DTSTART:20251102T020000");
+    expect(i).toBeGreaterThan(0);
+    expect(lines.slice(i - 1, i + 3)).toEqual(["BEGIN:STANDARD", "DTSTART:20251102T020000", "TZOFFSETFROM:-0400", "TZOFFSETTO:-0500"]);
+  });
+
+  it("has a single observance for a zone without daylight saving", () => {
+    const lines = buildVTimezone("Asia/Tokyo", from, to);
+    expect(lines.filter((l) => l.startsWith("BEGIN:") && l !== "BEGIN:VTIMEZONE")).toEqual(["BEGIN:STANDARD"]);
+    expect(lines).toContain("TZOFFSETTO:+0900");
+  });
+});
+
+describe("buildICSEvent", () => {
+  const opts = { tripId: "hammer-cup-2025", timeZone: "Europe/Dublin", reminders: [{ tag: "golf", minutesBefore: 90 }, { tag: "caddie", minutesBefore: 90 }, { tag: "golf", minutesBefore: 1440 }], dtstamp: NOW };
+
+  it("adds one VALARM per distinct reminder time matching the event's tags", () => {
+    const lines = buildICSEvent(evt({ tags: ["golf", "caddie"] }), opts);
+    expect(lines.filter((l) => l === "BEGIN:VALARM")).toHaveLength(2);
+    expect(lines.filter((l) => l.startsWith("TRIGGER:"))).toEqual(["TRIGGER:-PT90M", "TRIGGER:-PT1440M"]);
+    expect(lines).toContain("ACTION:DISPLAY");
+    expect(lines.indexOf("END:VALARM")).toBeLessThan(lines.indexOf("END:VEVENT"));
+  });
+
+  it("adds no VALARM to events without a reminder tag", () => {
+    expect(buildICSEvent(evt({ tags: ["dining"] }), opts)).not.toContain("BEGIN:VALARM");
+  });
+
+  it("starts SEQUENCE at 0", () => {
+    expect(buildICSEvent(evt(), opts)).toContain("SEQUENCE:0");
+  });
+});
+
+describe("UID and SEQUENCE", () => {
+  it("builds the UID from the trip and event ids", () => {
+    expect(eventUID("hammer-cup-2025", evt())).toBe("evt-1@hammer-cup-2025.golf-itinerary");
+  });
+
+  it("keeps an imported event's own UID", () => {
+    expect(eventUID("hammer-cup-2025", evt({ uid: "abc@operator.example" }))).toBe("abc@operator.example");
+  });
+
+  it("keeps the UID and bumps SEQUENCE when a calendar-visible field changes", () => {
+    const before = trip([evt()]);
+    const after = updateEvent(before, "2025-09-07", "evt-1", evt({ start: "2025-09-07T13:40:00Z" }));
+    const moved = after.days[0]!.events[0]!;
+    expect(moved.sequence).toBe(1);
+    const lines = buildICS(after, { tripId: "hammer-cup-2025", now: NOW }).split("\r\n");
+    expect(lines).toContain("UID:evt-1@hammer-cup-2025.golf-itinerary");
+    expect(lines).toContain("SEQUENCE:1");
+  });
+
+  it("bumps SEQUENCE when the tags, and so the categories and alarms, change", () => {
+    const before = trip([evt()]);
+    const after = updateEvent(before, "2025-09-07", "evt-1", evt({ tags: ["golf", "caddie"] }));
+    expect(after.days[0]!.events[0]!.sequence).toBe(1);
+  });
+
+  it("leaves SEQUENCE alone for changes calendars don't show", () => {
+    const before = trip([evt()]);
+    const after = updateEvent(before, "2025-09-07", "evt-1", evt({ reservation: 8, tags: ["golf"] }));
+    expect(after.days[0]!.events[0]!.sequence).toBeUndefined();
+  });
+
+  it("produces the same output for the same trip and time", () => {
+    const itin = trip([evt()]);
+    expect(buildICS(itin, { tripId: "t", now: NOW })).toBe(buildICS(itin, { tripId: "t", now: NOW }));
+  });
+});
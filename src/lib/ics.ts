@@ -0,0 +1,231 @@
+import type { DayPlan, EventItem, Itinerary, Participant, ReminderRule } from "@/lib/types";
+import { dayZone } from "@/lib/format";
+import { wallClock, zoneOffsetMs } from "@/lib/timezone";
+import { slugify } from "@/lib/utils";
+import { roundDescription } from "@/lib/golf-round";
+import { eventIncludesParticipant, participantLabel } from "@/lib/participants";
+
+// --------------------
+// iCalendar (RFC 5545) export
+// --------------------
+const CRLF = "\r\n";
+const MAX_LINE_OCTETS = 75;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const pad = (n: number, len = 2) => String(Math.abs(n)).padStart(len, "0");
+
+export function toICSDate(date: Date): string {
+  const yyyy = date.getUTCFullYear();
+  const mm = pad(date.getUTCMonth() + 1);
+  const dd = pad(date.getUTCDate());
+  const hh = pad(date.getUTCHours());
+  const min = pad(date.getUTCMinutes());
+  const ss = pad(date.getUTCSeconds());
+  return `${yyyy}${mm}${dd}T${hh}${min}${ss}Z`;
+}
+
+// Floating local time for use with a TZID parameter, e.g. 20250907T140000
+export function toICSLocalDate(input: string | number | Date, timeZone: string): string {
+  const w = wallClock(input, timeZone);
+  return `${w.year}${pad(w.month)}${pad(w.day)}T${pad(w.hour)}${pad(w.minute)}00`;
+}
+
+// TEXT values (§3.3.11): backslash, semicolon and comma are escaped, newlines become \n
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+// Content lines are folded at 75 octets (§3.1) without splitting a UTF-8 sequence;
+// continuation lines start with a single space, which counts toward their length
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  let limit = MAX_LINE_OCTETS;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += ch;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+}
+
+function formatOffset(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  const sign = minutes < 0 ? "-" : "+";
+  return `${sign}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+}
+
+// Instants (to the minute) where the zone's UTC offset changes between `from` and `to`
+function findTransitions(timeZone: string, from: number, to: number): number[] {
+  const out: number[] = [];
+  let prev = zoneOffsetMs(from, timeZone);
+  for (let t = from + DAY_MS; t <= to + DAY_MS; t += DAY_MS) {
+    const offset = zoneOffsetMs(t, timeZone);
+    if (offset === prev) continue;
+    let lo = t - DAY_MS;
+    let hi = t;
+    while (hi - lo > 60000) {
+      const mid = Math.floor((lo + hi) / 2 / 60000) * 60000;
+      if (zoneOffsetMs(mid, timeZone) === prev) lo = mid; else hi = mid;
+    }
+    out.push(hi);
+    prev = offset;
+  }
+  return out;
+}
+
+// VTIMEZONE with one explicit observance per offset change in the window the events cover,
+// plus the observance already in effect when the window opens
+export function buildVTimezone(timeZone: string, from: number, to: number): string[] {
+  const start = from - 366 * DAY_MS;
+  const transitions = findTransitions(timeZone, start, to);
+  const offsets = [zoneOffsetMs(start, timeZone), ...transitions.map((t) => zoneOffsetMs(t, timeZone))];
+  const lowest = Math.min(...offsets);
+  const observance = (kind: string, dtstart: string, fromOffset: number, toOffset: number) => [
+    `BEGIN:${kind}`,
+    `DTSTART:${dtstart}`,
+    `TZOFFSETFROM:${formatOffset(fromOffset)}`,
+    `TZOFFSETTO:${formatOffset(toOffset)}`,
+    `END:${kind}`,
+  ];
+  const kindOf = (offset: number) => (offset > lowest ? "DAYLIGHT" : "STANDARD");
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+  lines.push(...observance(kindOf(offsets[0]), "19700101T000000", offsets[0], offsets[0]));
+  transitions.forEach((t, i) => {
+    // DTSTART is the local time just before the change, in the offset being left
+    const local = new Date(t + offsets[i]);
+    const dtstart = `${local.getUTCFullYear()}${pad(local.getUTCMonth() + 1)}${pad(local.getUTCDate())}T${pad(local.getUTCHours())}${pad(local.getUTCMinutes())}00`;
+    lines.push(...observance(kindOf(offsets[i + 1]), dtstart, offsets[i], offsets[i + 1]));
+  });
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+export interface ICSEventOptions {
+  tripId: string;
+  timeZone: string;
+  reminders: ReminderRule[];
+  dtstamp: Date;
+  participants?: Participant[]; // names for linked players on tee sheets
+}
+
+// UIDs combine the trip id and event id so re-imports update instead of duplicating,
+// and a cloned trip's events never collide with last year's; imported events keep their source UID
+export function eventUID(tripId: string, evt: EventItem): string {
+  return evt.uid || `${evt.id}@${tripId}.golf-itinerary`;
+}
+
+function buildAlarms(evt: EventItem, reminders: ReminderRule[]): string[] {
+  const tags = evt.tags || [];
+  const minutes = Array.from(new Set(reminders.filter((r) => tags.includes(r.tag)).map((r) => r.minutesBefore)));
+  return minutes.flatMap((m) => [
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    `DESCRIPTION:${escapeText(evt.title || "Event")}`,
+    `TRIGGER:-PT${m}M`,
+    "END:VALARM",
+  ]);
+}
+
+export function buildICSEvent(evt: EventItem, opts: ICSEventOptions): string[] {
+  const { timeZone } = opts;
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${eventUID(opts.tripId, evt)}`,
+    `DTSTAMP:${toICSDate(opts.dtstamp)}`,
+    `DTSTART;TZID=${timeZone}:${toICSLocalDate(evt.start, timeZone)}`,
+    `DTEND;TZID=${timeZone}:${toICSLocalDate(evt.end, timeZone)}`,
+    `SEQUENCE:${evt.sequence ?? 0}`,
+    `SUMMARY:${escapeText(evt.title || "Event")}`,
+  ];
+  if (evt.location) lines.push(`LOCATION:${escapeText(evt.location)}`);
+  const description = [evt.round && roundDescription(evt.round, timeZone, opts.participants), evt.notes].filter(Boolean).join("\n\n");
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  if (evt.url) lines.push(`URL:${evt.url}`);
+  if (evt.tags?.length) lines.push(`CATEGORIES:${evt.tags.map(escapeText).join(",")}`);
+  lines.push(...buildAlarms(evt, opts.reminders), "END:VEVENT");
+  return lines;
+}
+
+// PRODID and file name come from the trip itself so each year's export is distinct
+export function icsProdId(itin: Itinerary): string {
+  return `-//Golf Itinerary//${(itin.tripTitle || "Golf Trip").replace(/\/\//g, "/")}//EN`;
+}
+export function icsFileName(itin: Itinerary, singleEvent?: EventItem, participant?: Participant): string {
+  const base = singleEvent ? singleEvent.title || "event" : `${itin.tripTitle || "golf-trip"} ${participant ? participantLabel(participant) : ""}`;
+  return `${slugify(base) || "golf-trip"}.ics`;
+}
+
+export interface BuildICSOptions {
+  tripId: string;
+  singleEvent?: EventItem;
+  filter?: (evt: EventItem) => boolean;
+  calendarName?: string;
+  refreshMinutes?: number; // set for subscribed feeds so clients poll for changes
+  now?: Date;
+}
+
+// Just the events one participant is going to, for personal downloads and feeds
+export function personalICSOptions(itin: Itinerary, participant: Participant): Pick<BuildICSOptions, "filter" | "calendarName"> {
+  return { filter: (evt) => eventIncludesParticipant(evt, participant), calendarName: `${itin.tripTitle} — ${participantLabel(participant)}` };
+}
+
+export function buildICS(itin: Itinerary, { tripId, singleEvent, filter, calendarName, refreshMinutes, now = new Date() }: BuildICSOptions): string {
+  // A single event exports in its day's zone (or the trip's, if it isn't on a day yet)
+  const entries: { evt: EventItem; day: DayPlan }[] = singleEvent
+    ? [{ evt: singleEvent, day: itin.days.find((d) => d.events.some((e) => e.id === singleEvent.id)) ?? { id: "", city: "", events: [] } }]
+    : itin.days.flatMap((day) => day.events.map((evt) => ({ evt, day })));
+  const valid = entries.filter(({ evt }) => (!filter || filter(evt)) && !isNaN(new Date(evt.start).getTime()) && !isNaN(new Date(evt.end).getTime()));
+
+  // One VTIMEZONE per zone in use, covering the span of that zone's events
+  const spans = new Map<string, { from: number; to: number }>();
+  const events = valid.map(({ evt, day }) => {
+    const timeZone = dayZone(itin, day).timeZone;
+    const from = new Date(evt.start).getTime();
+    const to = new Date(evt.end).getTime();
+    const span = spans.get(timeZone);
+    spans.set(timeZone, span ? { from: Math.min(span.from, from), to: Math.max(span.to, to) } : { from, to });
+    return buildICSEvent(evt, { tripId, timeZone, reminders: itin.reminders || [], dtstamp: now, participants: itin.participants });
+  });
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${icsProdId(itin)}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName || itin.tripTitle || "Golf Trip")}`,
+  ];
+  if (refreshMinutes) lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${refreshMinutes}M`, `X-PUBLISHED-TTL:PT${refreshMinutes}M`);
+  if (itin.timeZone) lines.push(`X-WR-TIMEZONE:${itin.timeZone}`);
+  for (const [timeZone, span] of spans) lines.push(...buildVTimezone(timeZone, span.from, span.to));
+  for (const evt of events) lines.push(...evt);
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+export function downloadICS(itin: Itinerary, tripId: string, { singleEvent, participant }: { singleEvent?: EventItem; participant?: Participant } = {}): void {
+  const personal = participant ? personalICSOptions(itin, participant) : {};
+  const blob = new Blob([buildICS(itin, { tripId, singleEvent, ...personal })], { type: "text/calendar;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = icsFileName(itin, singleEvent, participant);
+  a.click();
+  URL.revokeObjectURL(url);
+}
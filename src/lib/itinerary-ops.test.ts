@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { DayPlan, EventItem, Itinerary, LeaderboardSnapshot } from "@/lib/types";
+import { changeDayDate, moveEvent, removeDay } from "@/lib/itinerary-ops";
+import { blankItinerary } from "@/lib/trips";
+
+const evt = (id: string, start: string, end: string, patch: Partial<EventItem> = {}): EventItem => ({ id, title: "Royal Dublin", location: "Dollymount", start, end, ...patch });
+
+function trip(days: DayPlan[]): Itinerary {
+  return { ...blankItinerary("Hammer Cup"), timeZone: "Europe/Dublin", days };
+}
+
+// Irish clocks go back at 2:00 on Sunday 26 October 2025
+const saturday: DayPlan = { id: "2025-10-25", city: "Dublin", events: [evt("golf", "2025-10-25T07:30:00.000Z", "2025-10-25T12:30:00.000Z")] };
+const monday: DayPlan = { id: "2025-10-27", city: "Dublin", events: [] };
+
+describe("moveEvent", () => {
+  it("keeps the local time of day across a daylight saving change", () => {
+    const moved = moveEvent(trip([saturday, monday]), "2025-10-25", "golf", "2025-10-27").days[1]!.events[0]!;
+    // 8:30 to 13:30 Irish summer time becomes 8:30 to 13:30 GMT
+    expect(moved.start).toBe("2025-10-27T08:30:00.000Z");
+    expect(moved.end).toBe("2025-10-27T13:30:00.000Z");
+    expect(moved.sequence).toBe(1);
+  });
+
+  it("keeps an event that runs past midnight running past midnight", () => {
+    const late: DayPlan = { ...saturday, events: [evt("pub", "2025-10-25T21:00:00.000Z", "2025-10-26T01:30:00.000Z")] };
+    const moved = moveEvent(trip([late, monday]), "2025-10-25", "pub", "2025-10-27").days[1]!.events[0]!;
+    expect(moved.start).toBe("2025-10-27T22:00:00.000Z");
+    expect(moved.end).toBe("2025-10-28T01:30:00.000Z"); // the end was already after the clocks went back
+  });
+
+  it("keeps the time shown when the days are in different zones", () => {
+    const newYork: DayPlan = { id: "2025-10-27", city: "New York", timeZone: "America/New_York", events: [] };
+    const moved = moveEvent(trip([saturday, newYork]), "2025-10-25", "golf", "2025-10-27").days[1]!.events[0]!;
+    expect(moved.start).toBe("2025-10-27T12:30:00.000Z"); // 8:30 in New York
+  });
+
+  it("leaves the trip alone for a day that doesn't exist", () => {
+    const itin = trip([saturday]);
+    expect(moveEvent(itin, "2025-10-25", "golf", "2025-10-27")).toBe(itin);
+  });
+});
+
+describe("changeDayDate", () => {
+  it("keeps the local time of day across a daylight saving change", () => {
+    const day = changeDayDate(trip([saturday]), "2025-10-25", "2025-11-01").days[0]!;
+    expect(day.id).toBe("2025-11-01");
+    expect(day.events[0]).toMatchObject({ start: "2025-11-01T08:30:00.000Z", end: "2025-11-01T13:30:00.000Z", sequence: 1 });
+  });
+
+  it("moves expenses tagged with the day along with it", () => {
+    const itin = { ...trip([saturday]), expenses: [{ id: "exp-1", description: "Green fees", amount: 200, currency: "EUR" as const, paidBy: "p-alice", splitAmong: [], dayId: "2025-10-25", eventId: "golf" }] };
+    expect(changeDayDate(itin, "2025-10-25", "2025-11-01").expenses[0]).toMatchObject({ dayId: "2025-11-01", eventId: "golf" });
+  });
+
+  it("leaves the trip alone when the new date is taken", () => {
+    const itin = trip([saturday, monday]);
+    expect(changeDayDate(itin, "2025-10-25", "2025-10-27")).toBe(itin);
+  });
+});
+
+describe("leaderboard snapshots", () => {
+  const snapshot = (dayId: string): LeaderboardSnapshot => ({ dayId, boards: { wins: [{ player: "p-alice", score: 1 }] } });
+  const withHistory = () => ({ ...trip([saturday, monday]), leaderboardHistory: [snapshot("2025-10-25"), snapshot("2025-10-27")] });
+
+  it("follow a re-dated day, staying in date order", () => {
+    const itin = changeDayDate(withHistory(), "2025-10-25", "2025-10-29");
+    expect(itin.leaderboardHistory.map((h) => h.dayId)).toEqual(["2025-10-27", "2025-10-29"]);
+  });
+
+  it("go with a removed day", () => {
+    expect(removeDay(withHistory(), "2025-10-25").leaderboardHistory.map((h) => h.dayId)).toEqual(["2025-10-27"]);
+  });
+});
@@ -0,0 +1,291 @@
+import type { DayPlan, EventItem, GolfRound, Itinerary, LeaderboardEntry, TeeGroup } from "@/lib/types";
+import { fromZonedInputValue, toZonedInputValue, zonedDateKey } from "@/lib/timezone";
+import { dayZone } from "@/lib/format";
+import { roundDescription } from "@/lib/golf-round";
+import { isParticipantRef, playerRef, withPlayerRef } from "@/lib/participants";
+
+// --------------------
+// Pure itinerary edits (each returns a new Itinerary)
+// --------------------
+const DEFAULT_EVENT_MS = 2 * 60 * 60 * 1000;
+
+export function newEventId(): string {
+  return `evt-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+// Events without a parseable start sink to the end of the day
+export function sortEvents(events: EventItem[]): EventItem[] {
+  const key = (e: EventItem) => { const t = new Date(e.start).getTime(); return isNaN(t) ? Infinity : t; };
+  return [...events].sort((a, b) => key(a) - key(b));
+}
+
+function mapDay(itin: Itinerary, dayId: string, fn: (day: DayPlan) => DayPlan): Itinerary {
+  return { ...itin, days: itin.days.map((d) => (d.id === dayId ? fn(d) : d)) };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(fromDayId: string, toDayId: string): number {
+  return Math.round((new Date(`${toDayId}T00:00:00Z`).getTime() - new Date(`${fromDayId}T00:00:00Z`).getTime()) / DAY_MS);
+}
+
+// The same wall-clock time `days` later, read in one zone and written in another, so a daylight
+// saving change in between doesn't move it by an hour
+function shiftLocalDate(iso: string, days: number, fromZone: string, toZone: string): string {
+  const local = toZonedInputValue(iso, fromZone);
+  if (!local) return iso;
+  const date = new Date(`${local.slice(0, 10)}T12:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return fromZonedInputValue(`${date.toISOString().slice(0, 10)}${local.slice(10)}`, toZone);
+}
+
+// Fields a calendar shows; changing any of them bumps the event's SEQUENCE. Tags are exported as
+// CATEGORIES and pick the event's alarms.
+const CALENDAR_FIELDS: (keyof EventItem)[] = ["title", "location", "start", "end", "notes", "url", "tags", "round"];
+
+// Rounds compare by the tee sheet the calendar shows, so scores and results don't count
+const calendarValue = (evt: EventItem, k: keyof EventItem) => {
+  if (k === "round") return evt.round ? roundDescription(evt.round, "UTC") : "";
+  if (k === "tags") return (evt.tags ?? []).join(",");
+  return evt[k] ?? "";
+};
+
+export function withSequenceBump(before: EventItem, after: EventItem): EventItem {
+  const changed = CALENDAR_FIELDS.some((k) => calendarValue(before, k) !== calendarValue(after, k));
+  return changed ? { ...after, sequence: (before.sequence ?? 0) + 1 } : after;
+}
+
+export function updateEvent(itin: Itinerary, dayId: string, evtId: string, updated: EventItem): Itinerary {
+  return mapDay(itin, dayId, (d) => ({
+    ...d,
+    events: sortEvents(d.events.map((e) => (e.id === evtId ? withSequenceBump(e, updated) : e))),
+  }));
+}
+
+export function updateTeeGroup(itin: Itinerary, dayId: string, evtId: string, groupId: string, patch: Partial<Omit<TeeGroup, "id">>): Itinerary {
+  const evt = itin.days.find((d) => d.id === dayId)?.events.find((e) => e.id === evtId);
+  if (!evt?.round) return itin;
+  const groups = evt.round.groups.map((g) => (g.id === groupId ? { ...g, ...patch } : g));
+  return updateEvent(itin, dayId, evtId, { ...evt, round: { ...evt.round, groups } });
+}
+
+export function updateDay(itin: Itinerary, dayId: string, patch: Partial<Omit<DayPlan, "id" | "events">>): Itinerary {
+  return mapDay(itin, dayId, (d) => ({ ...d, ...patch }));
+}
+
+// New events start at noon local time on their day
+export function addEvent(itin: Itinerary, dayId: string): Itinerary {
+  const day = itin.days.find((d) => d.id === dayId);
+  if (!day) return itin;
+  const start = new Date(fromZonedInputValue(`${dayId}T12:00`, dayZone(itin, day).timeZone));
+  const evt: EventItem = {
+    id: newEventId(),
+    title: "New event",
+    location: "",
+    start: start.toISOString(),
+    end: new Date(start.getTime() + DEFAULT_EVENT_MS).toISOString(),
+  };
+  return mapDay(itin, dayId, (d) => ({ ...d, events: sortEvents([...d.events, evt]) }));
+}
+
+export function deleteEvent(itin: Itinerary, dayId: string, evtId: string): Itinerary {
+  return mapDay(itin, dayId, (d) => ({ ...d, events: d.events.filter((e) => e.id !== evtId) }));
+}
+
+export function duplicateEvent(itin: Itinerary, dayId: string, evtId: string): Itinerary {
+  return mapDay(itin, dayId, (d) => {
+    const src = d.events.find((e) => e.id === evtId);
+    if (!src) return d;
+    const copy: EventItem = { ...src, id: newEventId(), title: `${src.title} (copy)`, sequence: 0 };
+    return { ...d, events: sortEvents([...d.events, copy]) };
+  });
+}
+
+// Moving keeps the local time of day and shifts the date by the gap between the two days
+export function moveEvent(itin: Itinerary, fromDayId: string, evtId: string, toDayId: string): Itinerary {
+  if (fromDayId === toDayId) return itin;
+  const from = itin.days.find((d) => d.id === fromDayId);
+  const to = itin.days.find((d) => d.id === toDayId);
+  const evt = from?.events.find((e) => e.id === evtId);
+  if (!evt || !to) return itin;
+  const gap = daysBetween(fromDayId, toDayId);
+  const [fromZone, toZone] = [dayZone(itin, from!).timeZone, dayZone(itin, to).timeZone];
+  const shift = (iso: string) => shiftLocalDate(iso, gap, fromZone, toZone);
+  const moved = withSequenceBump(evt, { ...evt, start: shift(evt.start), end: shift(evt.end) });
+  const removed = deleteEvent(itin, fromDayId, evtId);
+  return mapDay(removed, toDayId, (d) => ({ ...d, events: sortEvents([...d.events, moved]) }));
+}
+
+// --------------------
+// Days
+// --------------------
+const DAY_ID_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function sortDays(days: DayPlan[]): DayPlan[] {
+  return [...days].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+function nextDayId(dayId: string): string {
+  const d = new Date(`${dayId}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+// Adds the day after the last one (or today for an empty trip), carrying the last city forward
+export function addDay(itin: Itinerary, today: string): Itinerary {
+  const last = sortDays(itin.days).at(-1);
+  let id = last ? nextDayId(last.id) : today;
+  while (itin.days.some((d) => d.id === id)) id = nextDayId(id);
+  const day: DayPlan = { id, city: last?.city ?? "", events: [] };
+  return { ...itin, days: sortDays([...itin.days, day]) };
+}
+
+// Expenses tagged with the day stay in the ledger, untagged from it and its events; the day's
+// leaderboard snapshot goes with it
+export function removeDay(itin: Itinerary, dayId: string): Itinerary {
+  const expenses = itin.expenses.map((e) => {
+    if (e.dayId !== dayId) return e;
+    const untagged = { ...e };
+    delete untagged.dayId;
+    delete untagged.eventId;
+    return untagged;
+  });
+  const leaderboardHistory = itin.leaderboardHistory.filter((h) => h.dayId !== dayId);
+  return { ...itin, days: itin.days.filter((d) => d.id !== dayId), expenses, leaderboardHistory };
+}
+
+// Re-dating a day moves its events, expenses and leaderboard snapshot along with it; returns the
+// trip unchanged if the date is taken
+export function changeDayDate(itin: Itinerary, dayId: string, newId: string): Itinerary {
+  if (!DAY_ID_RE.test(newId) || dayId === newId || itin.days.some((d) => d.id === newId)) return itin;
+  const gap = daysBetween(dayId, newId);
+  const days = itin.days.map((d) => {
+    if (d.id !== dayId) return d;
+    const zone = dayZone(itin, d).timeZone;
+    const shift = (iso: string) => shiftLocalDate(iso, gap, zone, zone);
+    const moved: DayPlan = { ...d, id: newId, events: d.events.map((e) => withSequenceBump(e, { ...e, start: shift(e.start), end: shift(e.end) })) };
+    delete moved.dateLabel; // stale once the date changes
+    return moved;
+  });
+  const expenses = itin.expenses.map((e) => (e.dayId === dayId ? { ...e, dayId: newId } : e));
+  const leaderboardHistory = itin.leaderboardHistory
+    .filter((h) => h.dayId !== newId)
+    .map((h) => (h.dayId === dayId ? { ...h, dayId: newId } : h))
+    .sort((a, b) => a.dayId.localeCompare(b.dayId));
+  return { ...itin, days: sortDays(days), expenses, leaderboardHistory };
+}
+
+// Local date (in the day's zone) of an event that doesn't start on its day, else null
+export function eventDateMismatch(day: DayPlan, evt: EventItem, timeZone: string): string | null {
+  if (isNaN(new Date(evt.start).getTime())) return null;
+  const key = zonedDateKey(evt.start, timeZone);
+  return key === day.id ? null : key;
+}
+
+export function countMisplacedEvents(itin: Itinerary): number {
+  return itin.days.reduce((n, d) => n + d.events.filter((e) => eventDateMismatch(d, e, dayZone(itin, d).timeZone)).length, 0);
+}
+
+// Regroup every event under the local date it starts on; existing days keep their city and
+// notes, and dates with no day yet get a new one inheriting the city of the day the event came from
+export function rebuildDaysFromEvents(itin: Itinerary): Itinerary {
+  const byId = new Map<string, DayPlan>(itin.days.map((d) => [d.id, { ...d, events: [] as EventItem[] }]));
+  for (const day of itin.days) {
+    for (const evt of day.events) {
+      const key = eventDateMismatch(day, evt, dayZone(itin, day).timeZone) ?? day.id;
+      let target = byId.get(key);
+      if (!target) {
+        target = { id: key, city: day.city, timeZone: day.timeZone, events: [] };
+        if (!target.timeZone) delete target.timeZone;
+        byId.set(key, target);
+      }
+      target.events.push(evt);
+    }
+  }
+  const days = Array.from(byId.values()).map((d) => ({ ...d, events: sortEvents(d.events) }));
+  return { ...itin, days: sortDays(days) };
+}
+
+// --------------------
+// People
+// --------------------
+const unique = (refs: string[]) => Array.from(new Set(refs));
+
+function mapRoundRefs(round: GolfRound, itin: Itinerary, fn: (ref: string) => string): GolfRound {
+  const out: GolfRound = {
+    ...round,
+    groups: round.groups.map((g) => ({ ...g, sides: g.sides.map((side) => side.map((p) => withPlayerRef(itin.participants, p, fn(playerRef(p))))) })),
+  };
+  if (round.scorecard) {
+    // Two rows can end up as one person; the first keeps its strokes
+    const scores = round.scorecard.scores.map((s) => ({ ...s, player: fn(s.player) }));
+    out.scorecard = { ...round.scorecard, scores: scores.filter((s, i) => scores.findIndex((x) => x.player === s.player) === i) };
+  }
+  if (round.games) out.games = round.games.map((g) => ({ ...g, players: unique(g.players.map(fn)), winner: g.winner && fn(g.winner) }));
+  return out;
+}
+
+// Rewrites every person ref in the trip: boards and their history, pairings, scorecards, side
+// games, cup teams, bets, payments and expenses. Attendance already uses participant ids and isn't touched.
+export function mapPersonRefs(itin: Itinerary, fn: (ref: string) => string): Itinerary {
+  const board = (rows: LeaderboardEntry[]) => rows.map((r) => ({ ...r, player: fn(r.player) }));
+  const out: Itinerary = {
+    ...itin,
+    days: itin.days.map((d) => ({ ...d, events: d.events.map((e) => (e.round ? { ...e, round: mapRoundRefs(e.round, itin, fn) } : e)) })),
+    leaderboards: itin.leaderboards.map((b) => ({ ...b, rows: board(b.rows) })),
+    leaderboardHistory: itin.leaderboardHistory.map((s) => ({ ...s, boards: Object.fromEntries(Object.entries(s.boards).map(([id, rows]) => [id, board(rows)])) })),
+    bets: itin.bets.map((b) => ({ ...b, winner: fn(b.winner), loser: fn(b.loser) })),
+    payments: itin.payments.map((p) => ({ ...p, from: fn(p.from), to: fn(p.to) })),
+    expenses: itin.expenses.map((e) => ({ ...e, paidBy: fn(e.paidBy), splitAmong: unique(e.splitAmong.map(fn)) })),
+  };
+  if (itin.cup) {
+    const teams = itin.cup.teams.map((t) => ({ ...t, captain: fn(t.captain), players: unique(t.players.map(fn)) }));
+    out.cup = { ...itin.cup, teams: teams as typeof itin.cup.teams };
+  }
+  return out;
+}
+
+// Typed names match whatever their case or spacing ("Brit", "brit ")
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+// Names still stored as text, most used first, under the spelling seen first
+export function unlinkedNames(itin: Itinerary): { name: string; uses: number }[] {
+  const uses = new Map<string, { name: string; uses: number }>();
+  mapPersonRefs(itin, (ref) => {
+    if (ref.trim() && !isParticipantRef(itin.participants, ref)) {
+      const entry = uses.get(nameKey(ref)) ?? { name: ref.trim(), uses: 0 };
+      uses.set(nameKey(ref), { ...entry, uses: entry.uses + 1 });
+    }
+    return ref;
+  });
+  return Array.from(uses.values()).sort((a, b) => b.uses - a.uses || a.name.localeCompare(b.name));
+}
+
+// Points everything typed as `name` at a participant; an unnamed spot takes the name
+export function linkName(itin: Itinerary, name: string, participantId: string): Itinerary {
+  if (!name.trim()) return itin;
+  const participants = itin.participants.map((p) => (p.id === participantId && !p.name.trim() ? { ...p, name: name.trim() } : p));
+  return mapPersonRefs({ ...itin, participants }, (ref) => (!isParticipantRef(participants, ref) && nameKey(ref) === nameKey(name) ? participantId : ref));
+}
+
+// Whatever pointed at the participant falls back to their name as text, so past scores and
+// debts still read right
+export function removeParticipant(itin: Itinerary, participantId: string): Itinerary {
+  const p = itin.participants.find((x) => x.id === participantId);
+  if (!p) return itin;
+  const rest: Itinerary = {
+    ...itin,
+    participants: itin.participants.filter((x) => x.id !== participantId),
+    days: itin.days.map((d) => ({
+      ...d,
+      events: d.events.map((e) => {
+        if (!e.attendees && !e.rsvps) return e;
+        const next: EventItem = { ...e, attendees: e.attendees?.filter((id) => id !== participantId), rsvps: e.rsvps?.filter((r) => r.participantId !== participantId) };
+        if (!next.attendees) delete next.attendees;
+        if (!next.rsvps?.length) delete next.rsvps;
+        return next;
+      }),
+    })),
+  };
+  return mapPersonRefs(rest, (ref) => (ref === participantId ? p.name.trim() : ref));
+}
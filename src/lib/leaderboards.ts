@@ -0,0 +1,74 @@
+import type { BoardFormat, BoardSort, BoardSource, BoardTieBreak, Leaderboard, LeaderboardEntry } from "@/lib/types";
+import { fmtToPar, hasScores, tripTotals, type RoundBreakdown } from "@/lib/scoring";
+import { dollarsBoard, fmtMoney, type LedgerLine } from "@/lib/ledger";
+
+// --------------------
+// Board definitions
+// --------------------
+export const BOARD_SORTS: Record<BoardSort, string> = { high: "High wins", low: "Low wins" };
+export const BOARD_FORMATS: Record<BoardFormat, string> = { money: "Dollars", number: "Number", signed: "Signed (+3)", toPar: "To par (E)" };
+export const BOARD_TIE_BREAKS: Record<BoardTieBreak, string> = { shared: "Share the place", countback: "Countback" };
+export const BOARD_SOURCES: Record<BoardSource, string> = {
+  ledger: "Ledger winnings",
+  wins: "Match wins",
+  toPar: "Strokes to par",
+  stableford: "Stableford points",
+};
+
+export function newBoardId(): string {
+  return `board-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function emptyBoard(): Leaderboard {
+  return { id: newBoardId(), name: "", sort: "high", format: "number", tieBreak: "shared", rows: [] };
+}
+
+// The two boards every trip started with; their ids are what older snapshots were keyed by
+export function defaultLeaderboards(): Leaderboard[] {
+  return [
+    { id: "grossDollars", name: "Gross Dollars", sort: "high", format: "money", tieBreak: "shared", source: "ledger", rows: [] },
+    { id: "totalWins", name: "Total Wins", sort: "high", format: "number", tieBreak: "countback", source: "wins", rows: [] },
+  ];
+}
+
+// A computed source brings its natural sort and format with it
+export function withSource(board: Leaderboard, source: BoardSource | undefined): Leaderboard {
+  if (!source) return { ...board, source };
+  const sort: BoardSort = source === "toPar" ? "low" : "high";
+  const format: BoardFormat = source === "ledger" ? "money" : source === "toPar" ? "toPar" : "number";
+  return { ...board, source, sort, format };
+}
+
+// --------------------
+// Formatting
+// --------------------
+export function formatBoardScore(format: BoardFormat, n: number): string {
+  switch (format) {
+    case "money": return n > 0.004 ? `+${fmtMoney(n)}` : fmtMoney(n);
+    case "signed": return n > 0 ? `+${n}` : `${n}`;
+    case "toPar": return fmtToPar(n);
+    case "number": return `${n}`;
+  }
+}
+
+// Changes always carry a sign, whatever the board shows its scores as
+export function formatBoardDelta(format: BoardFormat, n: number): string {
+  return formatBoardScore(format === "money" ? "money" : "signed", n);
+}
+
+// --------------------
+// Computed boards
+// --------------------
+// Rows for a computed source, or undefined while there's nothing to work them out from
+export function sourceRows(source: BoardSource, breakdowns: RoundBreakdown[], lines: LedgerLine[]): LeaderboardEntry[] | undefined {
+  if (source === "ledger") return lines.length ? dollarsBoard(lines) : undefined;
+  if (!hasScores(breakdowns)) return undefined;
+  const totals = tripTotals(breakdowns);
+  if (source === "wins") return totals.map((t) => ({ player: t.player, score: t.wins }));
+  const played = totals.filter((t) => t.rounds > 0);
+  return played.map((t) => ({ player: t.player, score: source === "toPar" ? t.toPar : t.points }));
+}
+
+export function boardRows(board: Leaderboard, breakdowns: RoundBreakdown[], lines: LedgerLine[]): LeaderboardEntry[] | undefined {
+  return board.source ? sourceRows(board.source, breakdowns, lines) : undefined;
+}
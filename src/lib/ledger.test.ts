@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { Itinerary } from "@/lib/types";
+import { balances, settleUp, totalsByPlayer, type Transfer } from "@/lib/ledger";
+import { blankItinerary } from "@/lib/trips";
+
+const owed = (entries: Record<string, number>) => new Map(Object.entries(entries));
+
+// What each player ends up with once the transfers are made; everyone should be at 0
+function afterSettling(balance: Map<string, number>, transfers: Transfer[]): Map<string, number> {
+  return totalsByPlayer([
+    ...Array.from(balance, ([player, amount]) => ({ player, amount })),
+    ...transfers.flatMap((t) => [{ player: t.from, amount: t.amount }, { player: t.to, amount: -t.amount }]),
+  ]);
+}
+
+describe("settleUp", () => {
+  it("has the biggest loser pay the biggest winner first", () => {
+    expect(settleUp(owed({ alice: 30, bob: -10, carol: -20 }))).toEqual([
+      { from: "carol", to: "alice", amount: 20 },
+      { from: "bob", to: "alice", amount: 10 },
+    ]);
+  });
+
+  it("pays the remainder on to the next winner", () => {
+    expect(settleUp(owed({ alice: 25, bob: 15, carol: -40 }))).toEqual([
+      { from: "carol", to: "alice", amount: 25 },
+      { from: "carol", to: "bob", amount: 15 },
+    ]);
+  });
+
+  it("squares everyone in at most n − 1 payments", () => {
+    const balance = owed({ alice: 6, bob: 4, carol: -5, dan: -3, erin: -2 });
+    const transfers = settleUp(balance);
+    expect(transfers.length).toBeLessThanOrEqual(balance.size - 1);
+    expect(Array.from(afterSettling(balance, transfers).values()).every((n) => n === 0)).toBe(true);
+  });
+
+  it("works to the cent when a bill doesn't split evenly", () => {
+    const balance = owed({ alice: 100, bob: -33.33, carol: -33.33, dan: -33.34 });
+    const transfers = settleUp(balance);
+    expect(transfers.map((t) => t.amount).sort()).toEqual([33.33, 33.33, 33.34]);
+    expect(Array.from(afterSettling(balance, transfers).values()).every((n) => n === 0)).toBe(true);
+  });
+
+  it("has nothing to do when everyone is square or off by rounding", () => {
+    expect(settleUp(owed({ alice: 0, bob: 0 }))).toEqual([]);
+    expect(settleUp(owed({ alice: 0.001, bob: -0.001 }))).toEqual([]);
+  });
+});
+
+describe("balances", () => {
+  it("counts recorded payments against what's owed", () => {
+    const itin: Itinerary = { ...blankItinerary("Hammer Cup"), payments: [{ id: "pay-1", from: "bob", to: "alice", amount: 10 }] };
+    const lines = [{ player: "alice", amount: 30, label: "Bet" }, { player: "bob", amount: -30, label: "Bet" }];
+    const balance = balances(itin, lines);
+    expect(Object.fromEntries(balance)).toEqual({ alice: 20, bob: -20 });
+    expect(settleUp(balance)).toEqual([{ from: "bob", to: "alice", amount: 20 }]);
+  });
+});
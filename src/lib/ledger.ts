@@ -0,0 +1,204 @@
+import type { EventItem, GolfRound, GolfRoundEvent, Itinerary, LeaderboardEntry, Participant, PlayerHandicap, Scorecard, SideGame, SideGameKind } from "@/lib/types";
+import { isGolfRound } from "@/lib/golf-round";
+import { participantHandicaps, personName, playerRef } from "@/lib/participants";
+import { matchAllocation, matchPlay, roundHandicaps, roundPlayers, type Allocation, type RoundBreakdown } from "@/lib/scoring";
+
+// --------------------
+// Side games, bets and settling up
+// --------------------
+export const SIDE_GAMES: Record<SideGameKind, string> = {
+  nassau: "Nassau",
+  skins: "Skins",
+  closest: "Closest to the pin",
+  longDrive: "Long drive",
+};
+
+export function newLedgerId(prefix: "game" | "bet" | "pay"): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function emptySideGame(kind: SideGameKind): SideGame {
+  return { id: newLedgerId("game"), kind, stake: kind === "nassau" ? 5 : 2, players: [], hole: kind === "closest" || kind === "longDrive" ? 1 : undefined };
+}
+
+// One player's share of a game, a bet or a round's match stakes
+export interface LedgerLine {
+  player: string; // person ref
+  amount: number; // positive when won
+  label: string;
+  eventId?: string;
+}
+
+export interface SideGameResult {
+  game: SideGame;
+  amounts: { player: string; amount: number }[];
+  details: string[]; // "Levin 2 skins", "Front: Levin + Probst 2&1"
+}
+
+// Dollar amounts are kept to the cent so repeated halves don't drift
+export const cents = (n: number): number => Math.round(n * 100) / 100;
+
+export function fmtMoney(n: number): string {
+  const abs = Math.abs(cents(n));
+  const text = Number.isInteger(abs) ? `$${abs}` : `$${abs.toFixed(2)}`;
+  return n < -0.004 ? `-${text}` : text;
+}
+
+export function gamePlayers(game: SideGame, round: GolfRound): string[] {
+  return game.players.length ? game.players : roundPlayers(round);
+}
+
+// Net games give strokes off the lowest handicap among the game's players, as in match play
+function allocationFor(round: GolfRound, card: Scorecard, players: string[], handicaps: PlayerHandicap[]): Allocation {
+  return card.net ? matchAllocation(card, players, roundHandicaps(round, handicaps)) : new Map();
+}
+
+// The low score on a hole wins a skin, ties carry it to the next hole; every skin is worth
+// the stake from each other player. Counting stops at the first hole someone hasn't finished.
+function skins(card: Scorecard, players: string[], stake: number, allocation: Allocation, name: (ref: string) => string): Omit<SideGameResult, "game"> {
+  const won = new Map<string, number>(players.map((p) => [p, 0]));
+  let carry = 0;
+  for (let hole = 0; hole < card.holes.length; hole++) {
+    const scores = players.map((p) => {
+      const s = card.scores.find((x) => x.player === p)?.strokes[hole];
+      return s == null ? null : s - (allocation.get(p)?.[hole] ?? 0);
+    });
+    if (!scores.length || scores.some((s) => s === null)) break;
+    carry++;
+    const low = Math.min(...(scores as number[]));
+    const leaders = players.filter((_, i) => scores[i] === low);
+    if (leaders.length === 1) {
+      won.set(leaders[0], won.get(leaders[0])! + carry);
+      carry = 0;
+    }
+  }
+  const total = Array.from(won.values()).reduce((a, b) => a + b, 0);
+  const amounts = players.map((p) => ({ player: p, amount: cents(won.get(p)! * stake * players.length - total * stake) }));
+  const details = players.filter((p) => won.get(p)! > 0).map((p) => `${name(p)} ${won.get(p)} skin${won.get(p) !== 1 ? "s" : ""}`);
+  if (carry) details.push(`${carry} carried over`);
+  return { amounts, details };
+}
+
+function sliceCard(card: Scorecard, from: number, to: number): Scorecard {
+  return { ...card, holes: card.holes.slice(from, to), scores: card.scores.map((s) => ({ ...s, strokes: s.strokes.slice(from, to) })) };
+}
+
+// Front nine, back nine and overall, each a match between the two sides of every group in the
+// game; 9-hole cards only have the overall bet
+function nassau(round: GolfRound, card: Scorecard, players: string[], stake: number, allocation: Allocation, name: (ref: string) => string): Omit<SideGameResult, "game"> {
+  const n = card.holes.length;
+  const segments: [string, number, number][] = n >= 18 ? [["Front", 0, 9], ["Back", 9, n], ["Overall", 0, n]] : [["Overall", 0, n]];
+  const totals = new Map<string, number>(players.map((p) => [p, 0]));
+  const details: string[] = [];
+  for (const group of round.groups) {
+    if (group.sides.length !== 2) continue;
+    const sides = group.sides.map((side) => side.map(playerRef)) as [string[], string[]];
+    const label = (side: string[]) => side.map(name).join(" + ");
+    if (!sides.flat().every((p) => players.includes(p))) continue;
+    const parts = segments.map(([segment, from, to]) => {
+      const slice = new Map(Array.from(allocation, ([p, r]) => [p, r.slice(from, to)]));
+      const result = matchPlay(sliceCard(card, from, to), sides, slice);
+      if (result.final && result.up !== 0) {
+        const [w, l] = result.up > 0 ? sides : [sides[1], sides[0]];
+        w.forEach((p) => totals.set(p, totals.get(p)! + stake));
+        l.forEach((p) => totals.set(p, totals.get(p)! - stake));
+      }
+      return `${segment} ${result.up > 0 ? label(sides[0]) + " " : result.up < 0 ? label(sides[1]) + " " : ""}${result.status}`;
+    });
+    details.push(`${sides.map(label).join(" v. ")}: ${parts.join(", ")}`);
+  }
+  return { amounts: players.map((p) => ({ player: p, amount: totals.get(p)! })), details };
+}
+
+// Closest to the pin and long drive: the winner collects the stake from everyone else
+function prize(game: SideGame, players: string[], name: (ref: string) => string): Omit<SideGameResult, "game"> {
+  const where = game.hole ? ` (hole ${game.hole})` : "";
+  if (!game.winner || !players.includes(game.winner)) return { amounts: [], details: [`Not decided${where}`] };
+  const amounts = players.map((p) => ({ player: p, amount: p === game.winner ? game.stake * (players.length - 1) : -game.stake }));
+  return { amounts, details: [`${name(game.winner)}${where}`] };
+}
+
+export function sideGameResults(evt: GolfRoundEvent, participants: Participant[]): SideGameResult[] {
+  const round = evt.round;
+  const handicaps = participantHandicaps(participants);
+  const name = (ref: string) => personName(participants, ref);
+  return (round.games ?? []).map((game) => {
+    const players = gamePlayers(game, round);
+    const card = round.scorecard;
+    if (game.kind === "closest" || game.kind === "longDrive") return { game, ...prize(game, players, name) };
+    if (!card) return { game, amounts: [], details: ["No scores yet"] };
+    const allocation = allocationFor(round, card, players, handicaps);
+    return { game, ...(game.kind === "skins" ? skins(card, players, game.stake, allocation, name) : nassau(round, card, players, game.stake, allocation, name)) };
+  });
+}
+
+// Everything won and lost on the trip: match stakes from the scorecards, side games and bets
+export function ledgerLines(itin: Itinerary, breakdowns: RoundBreakdown[]): LedgerLine[] {
+  const lines: LedgerLine[] = [];
+  for (const b of breakdowns) {
+    for (const a of b.awards) {
+      if (a.dollars) lines.push({ player: a.player, amount: cents(a.dollars), label: `${b.event.round.course} matches`, eventId: b.event.id });
+    }
+  }
+  const rounds = itin.days.flatMap((d) => d.events).filter((e: EventItem): e is GolfRoundEvent => isGolfRound(e));
+  for (const evt of rounds) {
+    for (const r of sideGameResults(evt, itin.participants)) {
+      for (const a of r.amounts) {
+        if (a.amount) lines.push({ player: a.player, amount: a.amount, label: `${evt.round.course} ${SIDE_GAMES[r.game.kind].toLowerCase()}`, eventId: evt.id });
+      }
+    }
+  }
+  for (const bet of itin.bets) {
+    if (!bet.winner || !bet.loser || !bet.amount) continue;
+    lines.push({ player: bet.winner, amount: bet.amount, label: bet.description || "Bet" });
+    lines.push({ player: bet.loser, amount: -bet.amount, label: bet.description || "Bet" });
+  }
+  return lines;
+}
+
+export function totalsByPlayer(lines: Pick<LedgerLine, "player" | "amount">[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const l of lines) totals.set(l.player, cents((totals.get(l.player) ?? 0) + l.amount));
+  return totals;
+}
+
+// Net winnings per player drive the Gross Dollars board
+export function dollarsBoard(lines: LedgerLine[]): LeaderboardEntry[] {
+  return Array.from(totalsByPlayer(lines), ([player, score]) => ({ player, score }));
+}
+
+// What each player is still up (positive) or down once recorded payments are counted
+export function balances(itin: Itinerary, lines: LedgerLine[]): Map<string, number> {
+  return totalsByPlayer([
+    ...lines,
+    ...itin.payments.flatMap((p) => [{ player: p.from, amount: p.amount }, { player: p.to, amount: -p.amount }]),
+  ]);
+}
+
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+// Largest debtor pays the largest creditor until everyone is square. That settles n players in at
+// most n − 1 payments, though not always the fewest possible: finding those means trying every way
+// of splitting the group into subsets that square up among themselves.
+export function settleUp(balance: Map<string, number>): Transfer[] {
+  const creditors = Array.from(balance, ([player, amount]) => ({ player, amount })).filter((b) => b.amount > 0.004);
+  const debtors = Array.from(balance, ([player, amount]) => ({ player, amount: -amount })).filter((b) => b.amount > 0.004);
+  const out: Transfer[] = [];
+  while (creditors.length && debtors.length) {
+    creditors.sort((a, b) => b.amount - a.amount);
+    debtors.sort((a, b) => b.amount - a.amount);
+    const c = creditors[0];
+    const d = debtors[0];
+    const amount = cents(Math.min(c.amount, d.amount));
+    out.push({ from: d.player, to: c.player, amount });
+    c.amount = cents(c.amount - amount);
+    d.amount = cents(d.amount - amount);
+    if (c.amount <= 0.004) creditors.shift();
+    if (d.amount <= 0.004) debtors.shift();
+  }
+  return out;
+}
@@ -0,0 +1,243 @@
+import type { Currency, EventItem, Itinerary } from "@/lib/types";
+import { validateItinerary } from "@/lib/schema";
+import { legacyRound } from "@/lib/golf-round";
+import { isValidTimeZone } from "@/lib/timezone";
+import { reservationFromNotes } from "@/lib/participants";
+import { defaultLeaderboards } from "@/lib/leaderboards";
+
+// --------------------
+// Versioned migrations for stored itineraries
+// --------------------
+// Data saved before versioning (the "golfTripItinerary_v1" era) has no schemaVersion and counts as 1.
+export const CURRENT_SCHEMA_VERSION = 12;
+
+export const DEFAULT_REMINDERS = [{ tag: "golf", minutesBefore: 90 }];
+export const DEFAULT_EXCHANGE_RATES: Record<Currency, number> = { USD: 1, EUR: 1.08, GBP: 1.27 };
+
+export class MigrationError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+type RawItinerary = Record<string, unknown>;
+type Migration = (data: RawItinerary) => RawItinerary;
+
+const isRecord = (v: unknown): v is RawItinerary => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Applies `fn` to every event object, leaving anything malformed for validation to report
+function mapEvents(data: RawItinerary, fn: (evt: RawItinerary, day: RawItinerary) => unknown): unknown {
+  if (!Array.isArray(data.days)) return data.days;
+  return data.days.map((day: unknown) => {
+    if (!isRecord(day) || !Array.isArray(day.events)) return day;
+    return { ...day, events: day.events.map((evt: unknown) => (isRecord(evt) ? fn(evt, day) : evt)) };
+  });
+}
+
+// v4 → v5 helper
+function withLegacyRounds(data: RawItinerary): unknown {
+  const tripZone = typeof data.timeZone === "string" && isValidTimeZone(data.timeZone) ? data.timeZone : "Europe/Dublin";
+  return mapEvents(data, (evt, day) => {
+    if (typeof evt.title !== "string" || typeof evt.start !== "string" || !Array.isArray(evt.tags)) return evt;
+    const zone = typeof day.timeZone === "string" && isValidTimeZone(day.timeZone) ? day.timeZone : tripZone;
+    return legacyRound(evt as unknown as EventItem, typeof day.notes === "string" ? day.notes : "", zone);
+  });
+}
+
+// v8 → v9 helper: names become participant records, taking their handicap along; blank
+// names were placeholders for people not yet confirmed, so they stay as unnamed spots
+function withParticipantRecords(data: RawItinerary): RawItinerary {
+  const names = Array.isArray(data.participants) ? data.participants.filter((p): p is string => typeof p === "string") : [];
+  const handicaps = Array.isArray(data.handicaps) ? data.handicaps.filter(isRecord) : [];
+  const participants = names.map((name, i) => {
+    const index = handicaps.find((h) => typeof h.player === "string" && name.trim() && h.player.trim().toLowerCase() === name.trim().toLowerCase())?.index;
+    return typeof index === "number" ? { id: `p${i + 1}`, name, handicap: index } : { id: `p${i + 1}`, name };
+  });
+  const idOf = (name: unknown) => participants.find((p) => typeof name === "string" && p.name.trim() && p.name.trim().toLowerCase() === name.trim().toLowerCase())?.id;
+  const days = mapEvents(data, (evt) => {
+    const next: RawItinerary = { ...evt };
+    if (Array.isArray(evt.attendees)) next.attendees = evt.attendees.map(idOf).filter((id): id is string => !!id);
+    const reservation = typeof evt.notes === "string" ? reservationFromNotes(evt.notes) : undefined;
+    if (reservation !== undefined && evt.reservation === undefined) next.reservation = reservation;
+    return next;
+  });
+  const rest = { ...data };
+  delete rest.handicaps;
+  return { ...rest, participants, days };
+}
+
+// v11 → v12 helper: the two fixed boards become the first entries of a list of boards, and
+// snapshots key their rows by board id. Data already in that shape is left alone.
+function withBoardList(data: RawItinerary): RawItinerary {
+  if (Array.isArray(data.leaderboards)) return data;
+  const { leaderboard, ...rest } = data;
+  const old = isRecord(leaderboard) ? leaderboard : {};
+  const [dollars, wins] = defaultLeaderboards();
+  const history = Array.isArray(data.leaderboardHistory)
+    ? data.leaderboardHistory.map((s) => (isRecord(s) && !isRecord(s.boards) ? { dayId: s.dayId, boards: { grossDollars: s.grossDollars, totalWins: s.totalWins } } : s))
+    : data.leaderboardHistory;
+  return {
+    ...rest,
+    // Typed wins tied before boards had tie-breaks, so keep them that way
+    leaderboards: [{ ...dollars, rows: old.grossDollars ?? [] }, { ...wins, tieBreak: "shared", rows: old.totalWins ?? [] }],
+    leaderboardHistory: history,
+  };
+}
+
+// v9 → v10 helper: person fields typed as a name become that participant's id when someone on
+// the v9 roster has the name (any case or spacing); the rest stay as typed. Works on the v9
+// shape alone, leaving anything malformed for validation to report.
+function withLinkedNames(data: RawItinerary): RawItinerary {
+  const roster = Array.isArray(data.participants) ? data.participants.filter(isRecord) : [];
+  const match = (name: string) => {
+    const key = name.trim().toLowerCase();
+    return roster.find((p) => p.id === name.trim()) ?? roster.find((p) => typeof p.name === "string" && p.name.trim() && p.name.trim().toLowerCase() === key);
+  };
+  const ref = (v: unknown): unknown => {
+    if (typeof v !== "string") return v;
+    const p = match(v);
+    return typeof p?.id === "string" ? p.id : v.trim();
+  };
+  const refs = (v: unknown): unknown => (Array.isArray(v) ? Array.from(new Set(v.map(ref))) : v);
+  const each = (list: unknown, fn: (item: RawItinerary) => RawItinerary): unknown => (Array.isArray(list) ? list.map((x: unknown) => (isRecord(x) ? fn(x) : x)) : list);
+  const rows = (list: unknown) => each(list, (r) => ({ ...r, player: ref(r.player) }));
+  // Pairing entries keep a name and gain the participant's id
+  const player = (p: RawItinerary): RawItinerary => {
+    if (typeof p.name !== "string") return p;
+    const linked = match(p.name);
+    return linked && typeof linked.id === "string" ? { ...p, name: linked.name, participantId: linked.id } : { ...p, name: p.name.trim() };
+  };
+  const round = (r: RawItinerary): RawItinerary => {
+    const out: RawItinerary = { ...r, groups: each(r.groups, (g) => ({ ...g, sides: Array.isArray(g.sides) ? g.sides.map((side: unknown) => each(side, player)) : g.sides })) };
+    if (isRecord(r.scorecard) && Array.isArray(r.scorecard.scores)) {
+      // Two rows can end up as one person; the first keeps its strokes
+      const scores = rows(r.scorecard.scores) as unknown[];
+      out.scorecard = { ...r.scorecard, scores: scores.filter((s, i) => !isRecord(s) || scores.findIndex((x) => isRecord(x) && x.player === s.player) === i) };
+    }
+    if (Array.isArray(r.games)) out.games = each(r.games, (g) => (g.winner === undefined ? { ...g, players: refs(g.players) } : { ...g, players: refs(g.players), winner: ref(g.winner) }));
+    return out;
+  };
+  const out: RawItinerary = {
+    ...data,
+    days: mapEvents(data, (evt) => (isRecord(evt.round) ? { ...evt, round: round(evt.round) } : evt)),
+    bets: each(data.bets, (b) => ({ ...b, winner: ref(b.winner), loser: ref(b.loser) })),
+    payments: each(data.payments, (p) => ({ ...p, from: ref(p.from), to: ref(p.to) })),
+    expenses: each(data.expenses, (e) => ({ ...e, paidBy: ref(e.paidBy), splitAmong: refs(e.splitAmong) })),
+  };
+  if (isRecord(data.leaderboard)) out.leaderboard = { ...data.leaderboard, grossDollars: rows(data.leaderboard.grossDollars), totalWins: rows(data.leaderboard.totalWins) };
+  if (isRecord(data.cup)) out.cup = { ...data.cup, teams: each(data.cup.teams, (t) => ({ ...t, captain: ref(t.captain), players: refs(t.players) })) };
+  return out;
+}
+
+// MIGRATIONS[n] upgrades a version-n payload to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 → v2: v1 loaders patched missing fields from the seed; make those defaults explicit
+  1: (data) => ({
+    subtitle: "",
+    homeBase: "",
+    participants: [],
+    days: [],
+    lodging: [],
+    tips: [],
+    ...data,
+    leaderboard: data.leaderboard ?? { grossDollars: [], totalWins: [] },
+    schemaVersion: 2,
+  }),
+  // v2 → v3: every trip so far was in Ireland, which formatters used to hard-code
+  2: (data) => ({
+    timeZone: "Europe/Dublin",
+    locale: "en-US",
+    ...data,
+    schemaVersion: 3,
+  }),
+  // v3 → v4: calendar reminders per tag
+  3: (data) => ({
+    reminders: DEFAULT_REMINDERS,
+    ...data,
+    schemaVersion: 4,
+  }),
+  // v4 → v5: golf rounds get structured tee times and pairings, parsed from titles and notes
+  4: (data) => ({
+    ...data,
+    days: withLegacyRounds(data),
+    schemaVersion: 5,
+  }),
+  // v5 → v6: participant handicaps; scorecards kept so far were gross-only
+  5: (data) => ({
+    handicaps: [],
+    ...data,
+    days: mapEvents(data, (evt) => {
+      const round = evt.round;
+      if (!isRecord(round) || !isRecord(round.scorecard)) return evt;
+      return { ...evt, round: { ...round, scorecard: { net: false, ...round.scorecard } } };
+    }),
+    schemaVersion: 6,
+  }),
+  // v6 → v7: a ledger of bets and settle-up payments
+  6: (data) => ({
+    bets: [],
+    payments: [],
+    ...data,
+    schemaVersion: 7,
+  }),
+  // v7 → v8: shared expenses, settled in the group's home currency
+  7: (data) => ({
+    expenses: [],
+    homeCurrency: "USD",
+    exchangeRates: DEFAULT_EXCHANGE_RATES,
+    ...data,
+    schemaVersion: 8,
+  }),
+  // v8 → v9: participant profiles (handicaps move onto them), RSVPs and reservation sizes
+  8: (data) => ({
+    ...withParticipantRecords(data),
+    schemaVersion: 9,
+  }),
+  // v9 → v10: boards, pairings, scorecards and the ledger refer to participants by id; names
+  // that match someone on the roster get linked, the rest stay as typed
+  9: (data) => ({
+    ...withLinkedNames(data),
+    schemaVersion: 10,
+  }),
+  // v10 → v11: saved end-of-day standings for the typed boards
+  10: (data) => ({
+    leaderboardHistory: [],
+    ...data,
+    schemaVersion: 11,
+  }),
+  // v11 → v12: organizer-defined boards with their own sort, format and tie-break
+  11: (data) => ({
+    ...withBoardList(data),
+    schemaVersion: 12,
+  }),
+};
+
+export function schemaVersionOf(raw: unknown): number {
+  if (typeof raw !== "object" || raw === null) return 1;
+  const v = (raw as RawItinerary).schemaVersion;
+  return typeof v === "number" ? v : 1;
+}
+
+// Upgrade any stored payload to the current schema, throwing MigrationError if it can't be trusted
+export function migrateItinerary(raw: unknown): Itinerary {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new MigrationError("Stored trip is not an object");
+  }
+  let version = schemaVersionOf(raw);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new MigrationError(`Stored trip uses schema v${version}, but this app only understands up to v${CURRENT_SCHEMA_VERSION}. Reload to get the latest version.`);
+  }
+  let data = raw as RawItinerary;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new MigrationError(`No migration from schema v${version}`);
+    data = migrate(data);
+    const next = schemaVersionOf(data);
+    if (next <= version) throw new MigrationError(`Migration from schema v${version} did not advance the version`);
+    version = next;
+  }
+  const issues = validateItinerary(data);
+  if (issues.length) throw new MigrationError("Stored trip failed validation", issues);
+  return data as unknown as Itinerary;
+}
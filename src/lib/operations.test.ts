@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import type { DayPlan, EventItem, Itinerary } from "@/lib/types";
+import { applyOps, diffOps, inverseOps, mergeOps, type Operation } from "@/lib/operations";
+import { blankItinerary } from "@/lib/trips";
+
+const evt = (id: string, patch: Partial<EventItem> = {}): EventItem => ({
+  id,
+  title: "Royal Dublin",
+  location: "Dollymount",
+  start: "2025-09-07T13:30:00Z",
+  end: "2025-09-07T18:30:00Z",
+  ...patch,
+});
+
+const day = (id: string, events: EventItem[] = []): DayPlan => ({ id, city: "Dublin", events });
+
+function trip(days: DayPlan[]): Itinerary {
+  return { ...blankItinerary("Hammer Cup"), days };
+}
+
+const base = trip([day("2025-09-07", [evt("golf"), evt("dinner", { title: "Dinner" })])]);
+const edit = (fn: (itin: Itinerary) => Itinerary) => diffOps(base, fn(structuredClone(base)));
+
+describe("diffOps on keyed lists", () => {
+  it("inserts an item after the one before it", () => {
+    const ops = diffOps(base, { ...base, days: [...base.days, day("2025-09-08")] });
+    expect(ops).toEqual([{ op: "insert", path: ["days"], value: day("2025-09-08"), after: { id: "2025-09-07" } }]);
+  });
+
+  it("inserts at the front with after: null", () => {
+    const ops = diffOps(base, { ...base, days: [day("2025-09-06"), ...base.days] });
+    expect(ops).toEqual([{ op: "insert", path: ["days"], value: day("2025-09-06"), after: null }]);
+  });
+
+  it("removes an item by id", () => {
+    const ops = edit((t) => { t.days[0]!.events.splice(0, 1); return t; });
+    expect(ops).toEqual([{ op: "remove", path: ["days", { id: "2025-09-07" }, "events", { id: "golf" }] }]);
+  });
+
+  it("addresses a field inside an item by the ids on the way", () => {
+    const ops = edit((t) => { t.days[0]!.events[1]!.location = "Howth"; return t; });
+    expect(ops).toEqual([{ op: "set", path: ["days", { id: "2025-09-07" }, "events", { id: "dinner" }, "location"], value: "Howth" }]);
+  });
+
+  it("removes a cleared field with a set that has no value", () => {
+    const withNotes = trip([day("2025-09-07", [evt("golf", { notes: "Caddies" })])]);
+    expect(diffOps(withNotes, trip([day("2025-09-07", [evt("golf")])]))).toEqual([
+      { op: "set", path: ["days", { id: "2025-09-07" }, "events", { id: "golf" }, "notes"] },
+    ]);
+  });
+
+  it("finds nothing to do for the same trip", () => {
+    expect(diffOps(base, structuredClone(base))).toEqual([]);
+  });
+});
+
+describe("applyOps", () => {
+  it("turns the trip into what it was diffed against", () => {
+    const after = structuredClone(base);
+    after.days[0]!.events.splice(0, 1);
+    after.days[0]!.events[0]!.title = "Dinner at the Shelbourne";
+    after.days.push(day("2025-09-08", [evt("links")]));
+    expect(applyOps(base, diffOps(base, after))).toEqual(after);
+  });
+
+  it("puts an insert after the item it names, wherever that is now", () => {
+    const op: Operation = { op: "insert", path: ["days", { id: "2025-09-07" }, "events"], value: evt("pub"), after: { id: "golf" } };
+    expect(applyOps(base, [op]).days[0]!.events.map((e) => e.id)).toEqual(["golf", "pub", "dinner"]);
+  });
+
+  it("doesn't add an item twice when both sides inserted it", () => {
+    const op: Operation = { op: "insert", path: ["days"], value: day("2025-09-08"), after: { id: "2025-09-07" } };
+    expect(applyOps(base, [op, op]).days).toHaveLength(2);
+  });
+
+  it("leaves the trip alone when the item an edit points at is gone", () => {
+    const op: Operation = { op: "set", path: ["days", { id: "2025-09-07" }, "events", { id: "gone" }, "title"], value: "x" };
+    expect(applyOps(base, [op])).toEqual(base);
+  });
+});
+
+describe("inverseOps", () => {
+  it("undoes sets, inserts and removes", () => {
+    const after = structuredClone(base);
+    after.days[0]!.events.splice(0, 1);
+    after.days[0]!.events[0]!.notes = "Booked for 8";
+    after.days.push(day("2025-09-08"));
+    const ops = diffOps(base, after);
+    expect(applyOps(applyOps(base, ops), inverseOps(base, ops))).toEqual(base);
+  });
+});
+
+describe("mergeOps", () => {
+  it("keeps edits to different fields of the same item", () => {
+    const theirs = edit((t) => { t.days[0]!.events[0]!.title = "The Island"; return t; });
+    const mine = edit((t) => { t.days[0]!.events[0]!.location = "Donabate"; return t; });
+    const { clean, conflicts } = mergeOps(mine, theirs);
+    expect(conflicts).toEqual([]);
+    const merged = applyOps(applyOps(base, theirs), clean).days[0]!.events[0]!;
+    expect(merged).toMatchObject({ title: "The Island", location: "Donabate" });
+  });
+
+  it("reports a conflict when both change the same field differently", () => {
+    const theirs = edit((t) => { t.days[0]!.events[0]!.start = "2025-09-07T13:40:00Z"; return t; });
+    const mine = edit((t) => { t.days[0]!.events[0]!.start = "2025-09-07T14:00:00Z"; return t; });
+    const { clean, conflicts } = mergeOps(mine, theirs);
+    expect(clean).toEqual([]);
+    expect(conflicts).toEqual([{ mine: mine[0], theirs: theirs[0] }]);
+  });
+
+  it("doesn't count the same change made twice as a conflict", () => {
+    const both = edit((t) => { t.days[0]!.events[0]!.title = "The Island"; return t; });
+    expect(mergeOps(both, both)).toEqual({ clean: both, conflicts: [] });
+  });
+
+  it("reports a conflict when editing something they removed", () => {
+    const theirs = edit((t) => { t.days[0]!.events.splice(0, 1); return t; });
+    const mine = edit((t) => { t.days[0]!.events[0]!.title = "The Island"; return t; });
+    expect(mergeOps(mine, theirs).conflicts).toHaveLength(1);
+  });
+
+  it("keeps inserts of different items into the same list, mine next to the item I put it after", () => {
+    const theirs = edit((t) => { t.days[0]!.events.push(evt("pub")); return t; });
+    const mine = edit((t) => { t.days[0]!.events.push(evt("chipper")); return t; });
+    const { clean, conflicts } = mergeOps(mine, theirs);
+    expect(conflicts).toEqual([]);
+    expect(applyOps(applyOps(base, theirs), clean).days[0]!.events.map((e) => e.id)).toEqual(["golf", "dinner", "chipper", "pub"]);
+  });
+});
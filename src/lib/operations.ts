@@ -0,0 +1,291 @@
+import type { Itinerary, Participant } from "@/lib/types";
+import { personName } from "@/lib/participants";
+
+// --------------------
+// Edits as operations
+// --------------------
+// A save sends what changed since the last revision the page saw rather than the whole trip, so
+// the server can merge edits from several phones and only stop on ones that touch the same field.
+//
+// Paths step through object keys, positions in fixed-length lists (scorecard strokes, tee-group
+// sides) and items of lists that have a key: { id } for days, events, people and ledger entries,
+// { player } for board and scorecard rows, { value } for lists of text like tips.
+export type ItemRef = { id: string } | { player: string } | { value: string };
+export type PathSegment = string | number | ItemRef;
+export type Path = PathSegment[];
+
+export type Operation =
+  | { op: "set"; path: Path; value?: unknown } // no value removes the field
+  | { op: "insert"; path: Path; value: unknown; after: ItemRef | null } // path is the list; null puts it first
+  | { op: "remove"; path: Path }; // path ends at the item
+
+// One of my operations the server didn't apply because someone else's touched the same field
+export interface Conflict {
+  mine: Operation;
+  theirs: Operation;
+}
+
+type Json = Record<string, unknown>;
+const isObject = (v: unknown): v is Json => typeof v === "object" && v !== null && !Array.isArray(v);
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  if (isObject(a) && isObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every((k) => deepEqual(a[k], b[k]));
+  }
+  return false;
+}
+
+// --------------------
+// Keyed lists
+// --------------------
+type ListKind = "id" | "player" | "value";
+
+function refOf(kind: ListKind, item: unknown): ItemRef {
+  if (kind === "value") return { value: item as string };
+  return kind === "id" ? { id: (item as { id: string }).id } : { player: (item as { player: string }).player };
+}
+
+export function matchesRef(item: unknown, ref: ItemRef): boolean {
+  if ("value" in ref) return item === ref.value;
+  if (!isObject(item)) return false;
+  return "id" in ref ? item.id === ref.id : item.player === ref.player && item.id === undefined;
+}
+
+const isRef = (segment: PathSegment): segment is ItemRef => typeof segment === "object";
+
+function isItemRef(v: unknown): v is ItemRef {
+  if (!isObject(v)) return false;
+  const keys = Object.keys(v);
+  return keys.length === 1 && ["id", "player", "value"].includes(keys[0]!) && typeof v[keys[0]!] === "string";
+}
+
+// Shape check for operations arriving from a page; the merged trip is validated separately
+export function isOperation(v: unknown): v is Operation {
+  if (!isObject(v) || !Array.isArray(v.path)) return false;
+  const pathOk = v.path.every((s) => typeof s === "string" || (typeof s === "number" && Number.isInteger(s) && s >= 0) || isItemRef(s));
+  if (!pathOk) return false;
+  if (v.op === "set" || v.op === "remove") return true;
+  return v.op === "insert" && "value" in v && (v.after === null || isItemRef(v.after));
+}
+
+function sameSegment(a: PathSegment, b: PathSegment): boolean {
+  return isRef(a) && isRef(b) ? deepEqual(a, b) : a === b;
+}
+
+// How a list's items are told apart; only lists whose items all have a distinct key qualify
+function listKind(...lists: unknown[][]): ListKind | null {
+  const kinds: [ListKind, (item: unknown) => unknown][] = [
+    ["value", (item) => (typeof item === "string" ? item : undefined)],
+    ["id", (item) => (isObject(item) && typeof item.id === "string" ? item.id : undefined)],
+    ["player", (item) => (isObject(item) && item.id === undefined && typeof item.player === "string" ? item.player : undefined)],
+  ];
+  for (const [kind, key] of kinds) {
+    const ok = lists.every((list) => {
+      const keys = list.map(key);
+      return keys.every((k) => k !== undefined) && new Set(keys).size === keys.length;
+    });
+    if (ok) return kind;
+  }
+  return null;
+}
+
+// --------------------
+// Diff
+// --------------------
+function diffValue(before: unknown, after: unknown, path: Path, out: Operation[]): void {
+  if (deepEqual(before, after)) return;
+  if (isObject(before) && isObject(after)) {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (after[key] === undefined) { if (before[key] !== undefined) out.push({ op: "set", path: [...path, key] }); }
+      else diffValue(before[key], after[key], [...path, key], out);
+    }
+    return;
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const kind = before.length || after.length ? listKind(before, after) : null;
+    if (kind) return diffList(kind, before, after, path, out);
+    if (before.length === after.length) {
+      before.forEach((item, i) => diffValue(item, after[i], [...path, i], out));
+      return;
+    }
+  }
+  out.push({ op: "set", path, value: after });
+}
+
+function diffList(kind: ListKind, before: unknown[], after: unknown[], path: Path, out: Operation[]): void {
+  const has = (list: unknown[], ref: ItemRef) => list.some((item) => matchesRef(item, ref));
+  for (const item of before) {
+    const ref = refOf(kind, item);
+    if (!has(after, ref)) out.push({ op: "remove", path: [...path, ref] });
+  }
+  after.forEach((item, i) => {
+    const ref = refOf(kind, item);
+    const was = before.find((b) => matchesRef(b, ref));
+    if (was === undefined) out.push({ op: "insert", path, value: item, after: i ? refOf(kind, after[i - 1]) : null });
+    else if (kind !== "value") diffValue(was, item, [...path, ref], out);
+  });
+}
+
+// The operations that turn `before` into `after`
+export function diffOps(before: Itinerary, after: Itinerary): Operation[] {
+  const out: Operation[] = [];
+  diffValue(before, after, [], out);
+  return out;
+}
+
+// --------------------
+// Apply
+// --------------------
+// Rebuilds the value along the path; an item that's no longer there leaves everything unchanged
+function updateAt(node: unknown, path: Path, fn: (value: unknown) => unknown): unknown {
+  if (!path.length) return fn(node);
+  const [head, ...rest] = path;
+  if (isRef(head)) {
+    if (!Array.isArray(node)) return node;
+    const i = node.findIndex((item) => matchesRef(item, head));
+    if (i < 0) return node;
+    return node.map((item, j) => (j === i ? updateAt(item, rest, fn) : item));
+  }
+  if (typeof head === "number") {
+    if (!Array.isArray(node) || head >= node.length) return node;
+    return node.map((item, j) => (j === head ? updateAt(item, rest, fn) : item));
+  }
+  if (!isObject(node)) return node;
+  const next = updateAt(node[head], rest, fn);
+  if (next === undefined) {
+    const copy = { ...node };
+    delete copy[head];
+    return copy;
+  }
+  return { ...node, [head]: next };
+}
+
+function applyOne(itin: unknown, op: Operation): unknown {
+  if (op.op === "set") return updateAt(itin, op.path, () => op.value);
+  if (op.op === "remove") {
+    const ref = op.path[op.path.length - 1];
+    if (!isRef(ref)) return itin;
+    return updateAt(itin, op.path.slice(0, -1), (list) => (Array.isArray(list) ? list.filter((item) => !matchesRef(item, ref)) : list));
+  }
+  return updateAt(itin, op.path, (list) => {
+    if (!Array.isArray(list)) return list;
+    const kind = listKind([op.value]);
+    if (kind && list.some((item) => matchesRef(item, refOf(kind, op.value)))) return list; // both sides added it
+    const at = op.after === null ? 0 : list.findIndex((item) => matchesRef(item, op.after!)) + 1 || list.length;
+    return [...list.slice(0, at), op.value, ...list.slice(at)];
+  });
+}
+
+export function applyOps(itin: Itinerary, ops: Operation[]): Itinerary {
+  return ops.reduce<unknown>(applyOne, itin) as Itinerary;
+}
+
+export function valueAt(node: unknown, path: Path): unknown {
+  for (const segment of path) {
+    if (isRef(segment)) node = Array.isArray(node) ? node.find((item) => matchesRef(item, segment)) : undefined;
+    else if (typeof segment === "number") node = Array.isArray(node) ? node[segment] : undefined;
+    else node = isObject(node) ? node[segment] : undefined;
+  }
+  return node;
+}
+
+// Operations that undo `ops` once they've been applied to `before`, newest first
+export function inverseOps(before: Itinerary, ops: Operation[]): Operation[] {
+  const out: Operation[] = [];
+  let state: unknown = before;
+  for (const op of ops) {
+    if (op.op === "set") out.push({ op: "set", path: op.path, value: valueAt(state, op.path) });
+    else if (op.op === "insert") {
+      const kind = listKind([op.value]);
+      if (kind) out.push({ op: "remove", path: [...op.path, refOf(kind, op.value)] });
+    } else {
+      const list = valueAt(state, op.path.slice(0, -1));
+      const ref = op.path[op.path.length - 1];
+      if (Array.isArray(list) && isRef(ref)) {
+        const i = list.findIndex((item) => matchesRef(item, ref));
+        const kind = listKind(list);
+        if (i >= 0 && kind) out.push({ op: "insert", path: op.path.slice(0, -1), value: list[i], after: i ? refOf(kind, list[i - 1]) : null });
+      }
+    }
+    state = applyOne(state, op);
+  }
+  return out.reverse();
+}
+
+// --------------------
+// Merge
+// --------------------
+// Where an operation lands: inserts count as touching the new item
+function target(op: Operation): Path {
+  if (op.op !== "insert") return op.path;
+  const kind = listKind([op.value]);
+  return kind ? [...op.path, refOf(kind, op.value)] : op.path;
+}
+
+function overlaps(a: Path, b: Path): boolean {
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) if (!sameSegment(a[i], b[i])) return false;
+  return true;
+}
+
+// Splits my operations into those that can go on top of theirs and those that touch something
+// they changed differently; making the same change as someone else isn't a conflict
+export function mergeOps(mine: Operation[], theirs: Operation[]): { clean: Operation[]; conflicts: Conflict[] } {
+  const clean: Operation[] = [];
+  const conflicts: Conflict[] = [];
+  for (const op of mine) {
+    const clash = theirs.find((t) => overlaps(target(op), target(t)) && !deepEqual(op, t));
+    if (clash) conflicts.push({ mine: op, theirs: clash });
+    else clean.push(op);
+  }
+  return { clean, conflicts };
+}
+
+// --------------------
+// Describing
+// --------------------
+const FIELD_LABELS: Record<string, string> = {
+  days: "Day", events: "Event", leaderboards: "Board", rows: "Row", participants: "Person",
+  tips: "Tip", bets: "Bet", payments: "Payment", expenses: "Expense", scorecard: "Scorecard",
+  scores: "Scores", strokes: "Hole", groups: "Group", games: "Side game",
+};
+
+function itemName(item: unknown, participants: Participant[]): string | undefined {
+  if (typeof item === "string") return item;
+  if (!isObject(item)) return undefined;
+  const name = item.title ?? item.name ?? item.description ?? item.course ?? (typeof item.player === "string" ? personName(participants, item.player) : undefined);
+  return typeof name === "string" && name.trim() ? name : undefined;
+}
+
+// "Event Royal Dublin › start": named from the innermost list item on the path
+export function describePath(itin: Itinerary, path: Path): string {
+  const parts: string[] = [];
+  let node: unknown = itin;
+  let field = "";
+  for (const segment of path) {
+    if (isRef(segment)) {
+      node = Array.isArray(node) ? node.find((item) => matchesRef(item, segment)) : undefined;
+      const label = FIELD_LABELS[field] ?? field;
+      const name = itemName(node, itin.participants) ?? ("id" in segment ? segment.id : "player" in segment ? personName(itin.participants, segment.player) : segment.value);
+      parts.length = 0;
+      parts.push(`${label} ${name}`);
+    } else if (typeof segment === "number") {
+      node = Array.isArray(node) ? node[segment] : undefined;
+      parts.push(field === "strokes" ? `hole ${segment + 1}` : `#${segment + 1}`);
+    } else {
+      node = isObject(node) ? node[segment] : undefined;
+      field = segment;
+      parts.push(segment);
+    }
+  }
+  return parts.join(" › ") || "The whole trip";
+}
+
+// What an operation leaves at its path, for showing side by side
+export function opResult(op: Operation): unknown {
+  if (op.op === "remove") return undefined;
+  return op.value;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import type { EventItem, Participant } from "@/lib/types";
+import { headcount, reservationWarning, rosterIds } from "@/lib/participants";
+
+const people: Participant[] = [
+  { id: "p-alice", name: "Alice" },
+  { id: "p-bob", name: "Bob", arrival: "2025-09-08" },
+  { id: "p-carol", name: "Carol" },
+  { id: "p-spot", name: "  " }, // a spot not filled yet
+];
+
+const dinner: EventItem = {
+  id: "dinner",
+  title: "Dinner",
+  location: "The Shelbourne",
+  start: "2025-09-07T18:00:00Z",
+  end: "2025-09-07T21:00:00Z",
+  rsvps: [{ participantId: "p-alice", status: "yes" }],
+  reservation: 3,
+};
+
+describe("headcount", () => {
+  it("counts the same people as the roster", () => {
+    const h = headcount(people, dinner, "2025-09-07");
+    expect(h.invited).toBe(rosterIds(people).length);
+    expect(h).toEqual({ invited: 3, yes: 1, maybe: 0, no: 0, pending: 1, away: 1 });
+  });
+
+  it("doesn't warn about a booking that fits everyone on the roster", () => {
+    expect(reservationWarning(headcount(people, dinner, "2025-09-08"), dinner.reservation)).toBeNull();
+  });
+
+  it("only counts the people an event is for", () => {
+    expect(headcount(people, { ...dinner, attendees: ["p-alice", "p-spot"] }, "2025-09-07").invited).toBe(1);
+  });
+});
@@ -0,0 +1,133 @@
+import type { DayPlan, EventItem, Participant, PlayerHandicap, RoundPlayer, RSVPStatus, TeeGroup } from "@/lib/types";
+
+// --------------------
+// Participant helpers
+// --------------------
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export function newParticipantId(): string {
+  return `p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export const participantLabel = (p: Participant): string => p.name.trim() || "Unnamed";
+
+// By id, or by name for links and feeds people type by hand
+export function findParticipant(participants: Participant[], idOrName: string): Participant | undefined {
+  return participants.find((p) => p.id === idOrName) ?? participants.find((p) => p.name.trim() && sameName(p.name, idOrName));
+}
+
+// Ids of the filled spots, for "everyone" in splits and pickers
+export function rosterIds(participants: Participant[]): string[] {
+  return participants.filter((p) => p.name.trim()).map((p) => p.id);
+}
+
+// Scoring looks handicaps up by person ref
+export function participantHandicaps(participants: Participant[]): PlayerHandicap[] {
+  return participants.filter((p) => p.handicap !== undefined).map((p) => ({ player: p.id, index: p.handicap! }));
+}
+
+// --------------------
+// Person refs (see types.ts)
+// --------------------
+export const isParticipantRef = (participants: Participant[], ref: string): boolean => participants.some((p) => p.id === ref);
+
+export function personName(participants: Participant[], ref: string): string {
+  const p = participants.find((x) => x.id === ref);
+  return p ? participantLabel(p) : ref;
+}
+
+// What to store for a typed name: the matching participant's id, else the name itself
+export function personRef(participants: Participant[], name: string): string {
+  return findParticipant(participants, name.trim())?.id ?? name.trim();
+}
+
+export const playerRef = (p: RoundPlayer): string => p.participantId ?? p.name;
+
+// Points a pairing entry at `ref`, keeping the typed name in step with the participant's
+export function withPlayerRef(participants: Participant[], p: RoundPlayer, ref: string): RoundPlayer {
+  const out: RoundPlayer = { ...p, name: personName(participants, ref) };
+  if (isParticipantRef(participants, ref)) out.participantId = ref; else delete out.participantId;
+  return out;
+}
+
+export const linkPlayer = (participants: Participant[], p: RoundPlayer): RoundPlayer => withPlayerRef(participants, p, personRef(participants, playerRef(p)));
+
+export function rsvpOf(evt: EventItem, participantId: string): RSVPStatus | undefined {
+  return evt.rsvps?.find((r) => r.participantId === participantId)?.status;
+}
+
+export function withRSVP(evt: EventItem, participantId: string, status: RSVPStatus | undefined): EventItem {
+  const rest = (evt.rsvps ?? []).filter((r) => r.participantId !== participantId);
+  const rsvps = status ? [...rest, { participantId, status }] : rest;
+  return { ...evt, rsvps: rsvps.length ? rsvps : undefined };
+}
+
+// Events without an attendee list are for the whole group
+export function isInvited(evt: EventItem, participantId: string): boolean {
+  return !evt.attendees || evt.attendees.includes(participantId);
+}
+
+// Arrival and departure dates are inclusive
+export function isOnTrip(p: Participant, dayId: string): boolean {
+  return (!p.arrival || p.arrival <= dayId) && (!p.departure || p.departure >= dayId);
+}
+
+// The tee time a participant is down for in a round's pairings
+export function teeGroupFor(evt: EventItem, participantId: string): TeeGroup | undefined {
+  return evt.round?.groups.find((g) => g.sides.flat().some((p) => p.participantId === participantId));
+}
+
+// Invited and hasn't said no; once a round's pairings name anyone on the roster, only the
+// people in them are playing it (two tee times for the same course can be separate events)
+export function eventIncludesParticipant(evt: EventItem, p: Participant): boolean {
+  if (!isInvited(evt, p.id) || rsvpOf(evt, p.id) === "no") return false;
+  const linked = evt.round?.groups.some((g) => g.sides.flat().some((x) => x.participantId));
+  return !linked || !!teeGroupFor(evt, p.id);
+}
+
+// One person's itinerary: the days they're on the trip with just their events
+export function personalDays(days: DayPlan[], p: Participant): DayPlan[] {
+  return days.filter((d) => isOnTrip(p, d.id)).map((d) => ({ ...d, events: d.events.filter((e) => eventIncludesParticipant(e, p)) }));
+}
+
+export interface Headcount {
+  invited: number;
+  yes: number;
+  maybe: number;
+  no: number;
+  pending: number; // invited, around that day and hasn't answered
+  away: number;    // invited but not on the trip that day
+}
+
+// Spots not yet filled aren't counted, as with rosterIds
+export function headcount(participants: Participant[], evt: EventItem, dayId: string): Headcount {
+  const invited = participants.filter((p) => p.name.trim() && isInvited(evt, p.id));
+  const count: Headcount = { invited: invited.length, yes: 0, maybe: 0, no: 0, pending: 0, away: 0 };
+  for (const p of invited) {
+    const status = rsvpOf(evt, p.id);
+    if (status) count[status]++;
+    else if (!isOnTrip(p, dayId)) count.away++;
+    else count.pending++;
+  }
+  return count;
+}
+
+// Everyone who hasn't declined or isn't away is expected; maybes could go either way
+export function expectedRange(h: Headcount): [number, number] {
+  const sure = h.yes + h.pending;
+  return [sure, sure + h.maybe];
+}
+
+export function reservationWarning(h: Headcount, reservation: number | undefined): string | null {
+  if (!reservation) return null;
+  const [low, high] = expectedRange(h);
+  if (reservation < low) return `Booked for ${reservation}, but ${low} are coming`;
+  if (reservation > high) return `Booked for ${reservation}, but only ${high} ${high === 1 ? "is" : "are"} coming`;
+  return null;
+}
+
+// "Reservation for 6 people", "table for 8"
+export function reservationFromNotes(notes: string): number | undefined {
+  const m = /\b(?:reservation|table|booking|booked)\s+(?:is\s+)?(?:for|of)\s+(\d{1,2})\b/i.exec(notes);
+  return m ? Number(m[1]) : undefined;
+}
@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { validateItinerary } from "@/lib/schema";
+import { blankItinerary } from "@/lib/trips";
+
+describe("validateItinerary", () => {
+  it("accepts a blank trip", () => {
+    expect(validateItinerary(blankItinerary("Hammer Cup"))).toEqual([]);
+  });
+
+  it("rejects exchange rates that would divide by zero or aren't numbers", () => {
+    const itin = { ...blankItinerary("Hammer Cup"), exchangeRates: { EUR: 0, USD: 1, GBP: Infinity } };
+    expect(validateItinerary(itin)).toEqual(["exchangeRates.EUR: expected a rate above 0", "exchangeRates.GBP: expected a rate above 0"]);
+    expect(validateItinerary({ ...itin, exchangeRates: { EUR: 1.1, USD: -1, GBP: 1.3 } })).toEqual(["exchangeRates.USD: expected a rate above 0"]);
+  });
+});
@@ -0,0 +1,215 @@
+import type { Itinerary } from "@/lib/types";
+import { isValidLocale, isValidTimeZone } from "@/lib/timezone";
+
+// --------------------
+// Runtime schema for stored itineraries
+// --------------------
+// Each check appends human-readable problems ("days[2].events[0].start: expected ISO date") to `issues`.
+type Check = (value: unknown, path: string, issues: string[]) => void;
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+const str: Check = (v, path, issues) => { if (typeof v !== "string") issues.push(`${path}: expected string`); };
+const num: Check = (v, path, issues) => { if (typeof v !== "number" || isNaN(v)) issues.push(`${path}: expected number`); };
+const rate: Check = (v, path, issues) => { if (typeof v !== "number" || !Number.isFinite(v) || v <= 0) issues.push(`${path}: expected a rate above 0`); };
+const bool: Check = (v, path, issues) => { if (typeof v !== "boolean") issues.push(`${path}: expected boolean`); };
+const numOrStr: Check = (v, path, issues) => {
+  if (typeof v !== "number" && typeof v !== "string") issues.push(`${path}: expected number or string`);
+};
+const isoDate: Check = (v, path, issues) => {
+  if (typeof v !== "string" || isNaN(new Date(v).getTime())) issues.push(`${path}: expected ISO date`);
+};
+const timeZone: Check = (v, path, issues) => {
+  if (typeof v !== "string" || !isValidTimeZone(v)) issues.push(`${path}: expected IANA time zone`);
+};
+const locale: Check = (v, path, issues) => {
+  if (typeof v !== "string" || !isValidLocale(v)) issues.push(`${path}: expected locale`);
+};
+const dayId: Check = (v, path, issues) => {
+  if (typeof v !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(v)) issues.push(`${path}: expected YYYY-MM-DD`);
+};
+
+function oneOf(...values: string[]): Check {
+  return (v, path, issues) => {
+    if (typeof v !== "string" || !values.includes(v)) issues.push(`${path}: expected one of ${values.join(", ")}`);
+  };
+}
+function nullable(check: Check): Check {
+  return (v, path, issues) => { if (v !== null) check(v, path, issues); };
+}
+function pair(check: Check): Check {
+  return (v, path, issues) => {
+    if (!Array.isArray(v) || v.length !== 2) { issues.push(`${path}: expected two entries`); return; }
+    v.forEach((item, i) => check(item, `${path}[${i}]`, issues));
+  };
+}
+function optional(check: Check): Check {
+  return (v, path, issues) => { if (v !== undefined) check(v, path, issues); };
+}
+function arrayOf(check: Check): Check {
+  return (v, path, issues) => {
+    if (!Array.isArray(v)) { issues.push(`${path}: expected array`); return; }
+    v.forEach((item, i) => check(item, `${path}[${i}]`, issues));
+  };
+}
+function recordOf(check: Check): Check {
+  return (v, path, issues) => {
+    if (!isObject(v)) { issues.push(`${path || "value"}: expected object`); return; }
+    for (const [key, item] of Object.entries(v)) check(item, `${path}.${key}`, issues);
+  };
+}
+function object(shape: Record<string, Check>): Check {
+  return (v, path, issues) => {
+    if (!isObject(v)) { issues.push(`${path || "value"}: expected object`); return; }
+    for (const [key, check] of Object.entries(shape)) check(v[key], path ? `${path}.${key}` : key, issues);
+  };
+}
+
+export const roundPlayerSchema = object({
+  name: str,
+  participantId: optional(str),
+  handicap: optional(num),
+});
+
+export const scorecardSchema = object({
+  holes: arrayOf(object({ par: num, strokeIndex: num })),
+  scores: arrayOf(object({ player: str, strokes: arrayOf(nullable(num)) })),
+  stake: num,
+  net: bool,
+});
+
+export const sideGameSchema = object({
+  id: str,
+  kind: oneOf("nassau", "skins", "closest", "longDrive"),
+  stake: num,
+  players: arrayOf(str),
+  hole: optional(num),
+  winner: optional(str),
+});
+
+export const golfRoundSchema = object({
+  course: str,
+  format: oneOf("fourball", "foursomes", "singles", "strokeplay", "stableford", "scramble"),
+  groups: arrayOf(object({
+    id: str,
+    teeTime: isoDate,
+    sides: arrayOf(arrayOf(roundPlayerSchema)),
+    result: optional(oneOf("A", "B", "halved")),
+  })),
+  slope: optional(num),
+  rating: optional(num),
+  scorecard: optional(scorecardSchema),
+  games: optional(arrayOf(sideGameSchema)),
+});
+
+export const eventItemSchema = object({
+  id: str,
+  title: str,
+  location: str,
+  start: isoDate,
+  end: isoDate,
+  notes: optional(str),
+  mapQuery: optional(str),
+  url: optional(str),
+  tags: optional(arrayOf(str)),
+  attendees: optional(arrayOf(str)),
+  rsvps: optional(arrayOf(object({ participantId: str, status: oneOf("yes", "no", "maybe") }))),
+  reservation: optional(num),
+  uid: optional(str),
+  sequence: optional(num),
+  round: optional(golfRoundSchema),
+});
+
+export const dayPlanSchema = object({
+  id: dayId,
+  dateLabel: optional(str),
+  city: str,
+  timeZone: optional(timeZone),
+  notes: optional(str),
+  events: arrayOf(eventItemSchema),
+});
+
+export const lodgingItemSchema = object({
+  nights: str,
+  name: str,
+  city: str,
+});
+
+const leaderboardRows = arrayOf(object({ player: str, score: numOrStr }));
+
+export const leaderboardSchema = object({
+  id: str,
+  name: str,
+  unit: optional(str),
+  sort: oneOf("high", "low"),
+  format: oneOf("money", "number", "signed", "toPar"),
+  tieBreak: oneOf("shared", "countback"),
+  source: optional(oneOf("ledger", "wins", "toPar", "stableford")),
+  rows: leaderboardRows,
+});
+
+export const leaderboardSnapshotSchema = object({
+  dayId,
+  boards: recordOf(leaderboardRows),
+});
+
+const currency = oneOf("EUR", "USD", "GBP");
+
+export const expenseSchema = object({
+  id: str,
+  description: str,
+  amount: num,
+  currency,
+  paidBy: str,
+  splitAmong: arrayOf(str),
+  dayId: optional(dayId),
+  eventId: optional(str),
+});
+
+export const participantSchema = object({
+  id: str,
+  name: str,
+  email: optional(str),
+  phone: optional(str),
+  handicap: optional(num),
+  arrival: optional(dayId),
+  departure: optional(dayId),
+});
+
+export const cupSchema = object({
+  name: str,
+  teams: pair(object({ name: str, captain: str, color: str, players: arrayOf(str) })),
+});
+
+export const itinerarySchema = object({
+  schemaVersion: num,
+  tripTitle: str,
+  subtitle: str,
+  timeZone,
+  locale,
+  homeBase: str,
+  participants: arrayOf(participantSchema),
+  days: arrayOf(dayPlanSchema),
+  lodging: arrayOf(lodgingItemSchema),
+  tips: arrayOf(str),
+  reminders: arrayOf(object({ tag: str, minutesBefore: num })),
+  leaderboards: arrayOf(leaderboardSchema),
+  leaderboardHistory: arrayOf(leaderboardSnapshotSchema),
+  bets: arrayOf(object({ id: str, description: str, winner: str, loser: str, amount: num })),
+  payments: arrayOf(object({ id: str, from: str, to: str, amount: num })),
+  expenses: arrayOf(expenseSchema),
+  homeCurrency: currency,
+  exchangeRates: object({ EUR: rate, USD: rate, GBP: rate }), // divided by when converting, so never 0
+  cup: optional(cupSchema),
+});
+
+// Returns every problem found; an empty list means the value is a valid Itinerary
+export function validateItinerary(value: unknown): string[] {
+  const issues: string[] = [];
+  itinerarySchema(value, "", issues);
+  return issues;
+}
+
+export function isItinerary(value: unknown): value is Itinerary {
+  return validateItinerary(value).length === 0;
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import type { HoleInfo, Scorecard } from "@/lib/types";
+import { courseHandicap, defaultHoles, fmtToPar, matchAllocation, matchPlay, netTotal, stablefordPoints, strokesReceived, toNumber } from "@/lib/scoring";
+
+const holes = defaultHoles(); // odd stroke indexes on the front nine, even on the back
+const sum = (ns: number[]) => ns.reduce((a, b) => a + b, 0);
+const holeWith = (si: number) => holes.findIndex((h) => h.strokeIndex === si);
+
+// Scores for two players over the first `played` holes: par everywhere except where `a` or `b`
+// give a different score for a hole (0-based)
+function card(played: number, a: Record<number, number> = {}, b: Record<number, number> = {}): Scorecard {
+  const row = (diff: Record<number, number>) => holes.map((h, i) => (i < played ? diff[i] ?? h.par : null));
+  return { holes, stake: 5, net: true, scores: [{ player: "A", strokes: row(a) }, { player: "B", strokes: row(b) }] };
+}
+
+describe("toNumber and fmtToPar", () => {
+  it("reads typed board values", () => {
+    expect(toNumber("+12")).toBe(12);
+    expect(toNumber("-26")).toBe(-26);
+    expect(toNumber("$40")).toBe(40);
+    expect(toNumber("n/a")).toBe(0);
+    expect(toNumber(3.5)).toBe(3.5);
+  });
+
+  it("shows par as E and signs everything else", () => {
+    expect(fmtToPar(0)).toBe("E");
+    expect(fmtToPar(3)).toBe("+3");
+    expect(fmtToPar(-2)).toBe("-2");
+  });
+});
+
+describe("courseHandicap", () => {
+  it("applies slope and course rating (WHS)", () => {
+    // 18 × 130 / 113 + (72.5 − 72) = 21.21
+    expect(courseHandicap(18, { slope: 130, rating: 72.5 }, 72)).toBe(21);
+  });
+
+  it("uses the index as is without a slope and rating", () => {
+    expect(courseHandicap(12.6, {}, 72)).toBe(13);
+    expect(courseHandicap(12.6, { slope: 130 }, 72)).toBe(13);
+  });
+
+  it("keeps plus handicaps negative", () => {
+    // −2.4 × 125 / 113 + (71 − 72) = −3.65
+    expect(courseHandicap(-2.4, { slope: 125, rating: 71 }, 72)).toBe(-4);
+  });
+
+  it("is the index on standard slope when rating equals par", () => {
+    expect(courseHandicap(9, { slope: 113, rating: 72 }, 72)).toBe(9);
+  });
+});
+
+describe("strokesReceived", () => {
+  it("gives one stroke on each of the hardest holes", () => {
+    const received = strokesReceived(5, holes);
+    expect(sum(received)).toBe(5);
+    for (const si of [1, 2, 3, 4, 5]) expect(received[holeWith(si)]).toBe(1);
+    expect(received[holeWith(6)]).toBe(0);
+  });
+
+  it("goes round again for handicaps over 18", () => {
+    const received = strokesReceived(20, holes);
+    expect(sum(received)).toBe(20);
+    expect(received[holeWith(1)]).toBe(2);
+    expect(received[holeWith(2)]).toBe(2);
+    expect(received[holeWith(3)]).toBe(1);
+    expect(strokesReceived(36, holes).every((n) => n === 2)).toBe(true);
+    expect(strokesReceived(40, holes)[holeWith(4)]).toBe(3);
+  });
+
+  it("gives strokes back on the easiest holes for plus handicaps", () => {
+    const received = strokesReceived(-2, holes);
+    expect(sum(received)).toBe(-2);
+    expect(received[holeWith(18)]).toBe(-1);
+    expect(received[holeWith(17)]).toBe(-1);
+    expect(received.filter((n) => n !== 0)).toHaveLength(2);
+  });
+
+  it("gives nothing for scratch", () => {
+    expect(strokesReceived(0, holes).every((n) => n === 0)).toBe(true);
+  });
+
+  it("works on a nine-hole card", () => {
+    const nine: HoleInfo[] = holes.slice(0, 9).map((h, i) => ({ ...h, strokeIndex: i + 1 }));
+    expect(strokesReceived(12, nine)).toEqual([2, 2, 2, 1, 1, 1, 1, 1, 1]);
+  });
+
+  it("handles a card with no holes", () => {
+    expect(strokesReceived(10, [])).toEqual([]);
+  });
+});
+
+describe("netTotal", () => {
+  it("takes received strokes off the holes played", () => {
+    expect(netTotal([5, 4, null], [1, 0, 1])).toBe(8);
+  });
+
+  it("adds strokes back for plus handicaps", () => {
+    expect(netTotal([4, 4], [0, -1])).toBe(9);
+  });
+});
+
+describe("stablefordPoints", () => {
+  const three: HoleInfo[] = [{ par: 4, strokeIndex: 1 }, { par: 3, strokeIndex: 2 }, { par: 5, strokeIndex: 3 }];
+
+  it("scores two for a net par, one more per stroke under and none past net bogey", () => {
+    // net par (2) + net birdie (3) + triple bogey (0)
+    expect(stablefordPoints([5, 2, 8], three, [1, 0, 0])).toBe(5);
+    expect(stablefordPoints([5, 4, 6], three, [0, 0, 0])).toBe(3); // bogeys score one each
+  });
+
+  it("skips holes not yet played", () => {
+    expect(stablefordPoints([4, null, null], three, [0, 0, 0])).toBe(2);
+  });
+
+  it("counts gross points with no strokes received", () => {
+    expect(stablefordPoints([3, 3, 5], three, [])).toBe(7);
+  });
+});
+
+describe("matchPlay", () => {
+  const sides: [string[], string[]] = [["A"], ["B"]];
+  const wins = (...idx: number[]) => Object.fromEntries(idx.map((i) => [i, holes[i]!.par - 1]));
+
+  it("hasn't started until both sides have a score on the first hole", () => {
+    expect(matchPlay(card(0), sides)).toEqual({ up: 0, thru: 0, final: false, status: "Not started" });
+  });
+
+  it("reports the lead while the match is live", () => {
+    expect(matchPlay(card(12, wins(0, 3)), sides)).toMatchObject({ up: 2, thru: 12, final: false, status: "2 up thru 12" });
+    expect(matchPlay(card(5), sides).status).toBe("All square thru 5");
+  });
+
+  it("is not over at dormie", () => {
+    expect(matchPlay(card(16, wins(0, 5)), sides)).toMatchObject({ final: false, status: "2 up thru 16" });
+  });
+
+  it("ends once the lead is more than the holes left", () => {
+    expect(matchPlay(card(15, wins(0, 1, 2, 3)), sides)).toEqual({ up: 4, thru: 15, final: true, status: "4&3" });
+  });
+
+  it("ignores holes played out after the match is decided", () => {
+    expect(matchPlay(card(18, wins(0, 1, 2, 3), wins(16, 17)), sides)).toEqual({ up: 4, thru: 15, final: true, status: "4&3" });
+  });
+
+  it("shows a win on the last hole as holes up, and side B's lead as negative", () => {
+    expect(matchPlay(card(18, {}, wins(17)), sides)).toEqual({ up: -1, thru: 18, final: true, status: "1 up" });
+  });
+
+  it("halves a match that's all square after 18", () => {
+    expect(matchPlay(card(18), sides)).toMatchObject({ up: 0, final: true, status: "Halved" });
+  });
+
+  it("counts only up to the first hole a side hasn't finished", () => {
+    const c = card(10, wins(0));
+    c.scores[1]!.strokes[4] = null;
+    expect(matchPlay(c, sides)).toMatchObject({ thru: 4, up: 1 });
+  });
+
+  it("plays off the lowest handicap with net strokes", () => {
+    const handicaps = new Map([["A", 4], ["B", 10]]);
+    const allocation = matchAllocation(card(0), ["A", "B"], handicaps);
+    expect(sum(allocation.get("A")!)).toBe(0);
+    expect(sum(allocation.get("B")!)).toBe(6);
+    // B bogeys the six holes B gets a stroke on: lost gross, halved net
+    const bogeys = Object.fromEntries([1, 2, 3, 4, 5, 6].map((si) => [holeWith(si), holes[holeWith(si)]!.par + 1]));
+    const c = card(18, {}, bogeys);
+    expect(matchPlay(c, sides).status).toBe("6&5");
+    expect(matchPlay(c, sides, allocation).status).toBe("Halved");
+  });
+
+  it("uses the better ball of each side", () => {
+    const c: Scorecard = {
+      ...card(0),
+      scores: [
+        { player: "A1", strokes: holes.map((h) => h.par + 1) },
+        { player: "A2", strokes: holes.map((h, i) => (i === 0 ? h.par - 1 : h.par)) },
+        { player: "B1", strokes: holes.map((h) => h.par) },
+        { player: "B2", strokes: holes.map((h) => h.par + 2) },
+      ],
+    };
+    expect(matchPlay(c, [["A1", "A2"], ["B1", "B2"]]).status).toBe("1 up");
+  });
+});
@@ -0,0 +1,297 @@
+import type { EventItem, GolfRound, GolfRoundEvent, HoleInfo, Itinerary, PlayerHandicap, Scorecard, TeeGroup } from "@/lib/types";
+import { isGolfRound } from "@/lib/golf-round";
+import { participantHandicaps, playerRef } from "@/lib/participants";
+
+// --------------------
+// Scorecards and results computed from them
+// --------------------
+const DEFAULT_PARS = [4, 4, 4, 3, 5, 4, 4, 3, 5, 4, 4, 3, 5, 4, 4, 3, 4, 5];
+
+// Par 72 with odd stroke indexes on the front nine and even on the back, until the real card is typed in
+export function defaultHoles(): HoleInfo[] {
+  return DEFAULT_PARS.map((par, i) => ({ par, strokeIndex: i < 9 ? i * 2 + 1 : (i - 9) * 2 + 2 }));
+}
+
+// Person refs of everyone in the pairings
+export function roundPlayers(round: GolfRound): string[] {
+  return Array.from(new Set(round.groups.flatMap((g) => g.sides.flat().map(playerRef)).filter(Boolean)));
+}
+
+// A row for every player in the pairings, keeping scores already entered (even for players since removed)
+export function syncScorecard(round: GolfRound): Scorecard {
+  const card = round.scorecard ?? { holes: defaultHoles(), scores: [], stake: 0, net: true };
+  const missing = roundPlayers(round).filter((ref) => !card.scores.some((s) => s.player === ref));
+  if (!missing.length) return card;
+  return { ...card, scores: [...card.scores, ...missing.map((player) => ({ player, strokes: card.holes.map(() => null) }))] };
+}
+
+export const grossTotal = (strokes: (number | null)[]): number => strokes.reduce<number>((sum, s) => sum + (s ?? 0), 0);
+export const holesPlayed = (strokes: (number | null)[]): number => strokes.filter((s) => s !== null).length;
+
+// Relative to par over the holes played so far
+export function scoreToPar(strokes: (number | null)[], holes: HoleInfo[]): number {
+  return holes.reduce((sum, h, i) => (strokes[i] == null ? sum : sum + strokes[i]! - h.par), 0);
+}
+export function fmtToPar(n: number): string {
+  return n === 0 ? "E" : n > 0 ? `+${n}` : `${n}`;
+}
+
+// Leaderboard values may be typed as "+12" or "-26"
+export const toNumber = (v: number | string): number => {
+  if (typeof v === "number") return v;
+  const n = parseFloat(String(v).replace(/[^+\-0-9.]/g, ""));
+  return isNaN(n) ? 0 : n;
+};
+
+// --------------------
+// Handicaps
+// --------------------
+export const STANDARD_SLOPE = 113;
+
+// A handicap written in the pairings wins over the participant's handicap index
+export function handicapIndexFor(round: GolfRound, handicaps: PlayerHandicap[], player: string): number | undefined {
+  const inPairings = round.groups.flatMap((g) => g.sides.flat()).find((p) => playerRef(p) === player)?.handicap;
+  return inPairings ?? handicaps.find((h) => h.player === player)?.index;
+}
+
+// World Handicap System: index × slope / 113 + (course rating − par), rounded; without a
+// slope and rating for the tees the index is used as is
+export function courseHandicap(index: number, round: Pick<GolfRound, "slope" | "rating">, par: number): number {
+  if (!round.slope || round.rating === undefined) return Math.round(index);
+  return Math.round(index * (round.slope / STANDARD_SLOPE) + (round.rating - par));
+}
+
+// Strokes received on each hole: one per hole in stroke-index order, going round again past
+// the card's length; plus handicaps give strokes back starting from the easiest hole
+export function strokesReceived(handicap: number, holes: HoleInfo[]): number[] {
+  const n = holes.length;
+  if (!n) return [];
+  const order = holes.map((h, i) => ({ si: h.strokeIndex, i })).sort((a, b) => a.si - b.si || a.i - b.i);
+  const rank = new Array<number>(n);
+  order.forEach((o, r) => { rank[o.i] = r; });
+  const abs = Math.abs(handicap);
+  const base = Math.floor(abs / n);
+  const extra = abs % n;
+  return holes.map((_, i) => {
+    const one = handicap >= 0 ? rank[i] < extra : rank[i] >= n - extra;
+    return (base + (one ? 1 : 0)) * Math.sign(handicap || 1);
+  });
+}
+
+export function netTotal(strokes: (number | null)[], received: number[]): number {
+  return strokes.reduce<number>((sum, s, i) => (s == null ? sum : sum + s - (received[i] ?? 0)), 0);
+}
+
+// Net Stableford: two points for a net par, one more per stroke better, none for worse than net bogey
+export function stablefordPoints(strokes: (number | null)[], holes: HoleInfo[], received: number[]): number {
+  return holes.reduce((sum, h, i) => {
+    const s = strokes[i];
+    return s == null ? sum : sum + Math.max(0, 2 + h.par + (received[i] ?? 0) - s);
+  }, 0);
+}
+
+// --------------------
+// Round results
+// --------------------
+export interface PlayerRoundScore {
+  player: string;
+  gross: number;
+  toPar: number;
+  thru: number;
+  courseHandicap?: number; // net cards only; undefined when the player has no handicap
+  net: number;
+  points: number; // net Stableford (gross Stableford on gross cards)
+}
+
+export interface MatchResult {
+  up: number; // holes side A is up (negative when side B leads)
+  thru: number;
+  final: boolean;
+  status: string; // "3&2", "1 up", "Halved", "2 up thru 12"
+}
+
+export interface GroupResult {
+  group: TeeGroup;
+  match?: MatchResult; // groups of two sides
+  final: boolean;
+  winners: string[];
+  losers: string[];
+  halved: string[];
+}
+
+export interface PlayerAward {
+  player: string;
+  wins: number;
+  dollars: number;
+}
+
+export interface RoundBreakdown {
+  event: GolfRoundEvent;
+  players: PlayerRoundScore[];
+  groups: GroupResult[];
+  awards: PlayerAward[];
+}
+
+// Handicap strokes per player per hole; missing players receive none
+export type Allocation = Map<string, number[]>;
+
+const strokesOf = (card: Scorecard, player: string) => card.scores.find((s) => s.player === player)?.strokes ?? [];
+
+// Best net ball of a side on one hole, or null if none of its players has a score there
+function sideHoleScore(card: Scorecard, side: string[], hole: number, allocation: Allocation): number | null {
+  const scores = side
+    .map((p) => { const s = strokesOf(card, p)[hole]; return s == null ? null : s - (allocation.get(p)?.[hole] ?? 0); })
+    .filter((s): s is number => s !== null);
+  return scores.length ? Math.min(...scores) : null;
+}
+
+// Hole-by-hole better-ball match play, counted up to the first hole either side hasn't finished
+// or until the match is decided
+export function matchPlay(card: Scorecard, sides: [string[], string[]], allocation: Allocation = new Map()): MatchResult {
+  let up = 0;
+  let thru = 0;
+  for (let hole = 0; hole < card.holes.length; hole++) {
+    const a = sideHoleScore(card, sides[0], hole, allocation);
+    const b = sideHoleScore(card, sides[1], hole, allocation);
+    if (a === null || b === null) break;
+    if (a < b) up++; else if (b < a) up--;
+    thru++;
+    if (Math.abs(up) > card.holes.length - thru) break;
+  }
+  const remaining = card.holes.length - thru;
+  const final = thru > 0 && (Math.abs(up) > remaining || remaining === 0);
+  const lead = Math.abs(up);
+  const status = final
+    ? up === 0 ? "Halved" : remaining > 0 ? `${lead}&${remaining}` : `${lead} up`
+    : thru === 0 ? "Not started" : up === 0 ? `All square thru ${thru}` : `${lead} up thru ${thru}`;
+  return { up, thru, final, status };
+}
+
+// Match play strokes are given off the lowest handicap in the match
+export function matchAllocation(card: Scorecard, players: string[], handicaps: Map<string, number>): Allocation {
+  const low = Math.min(...players.map((p) => handicaps.get(p) ?? 0));
+  return new Map(players.map((p) => [p, strokesReceived((handicaps.get(p) ?? 0) - low, card.holes)]));
+}
+
+function groupResult(card: Scorecard, round: GolfRound, group: TeeGroup, handicaps: Map<string, number>, scores: PlayerRoundScore[]): GroupResult {
+  if (group.sides.length === 2) {
+    const sides: [string[], string[]] = [group.sides[0].map(playerRef), group.sides[1].map(playerRef)];
+    const match = matchPlay(card, sides, matchAllocation(card, sides.flat(), handicaps));
+    if (!match.final) return { group, match, final: false, winners: [], losers: [], halved: [] };
+    if (match.up === 0) return { group, match, final: true, winners: [], losers: [], halved: sides.flat() };
+    const [w, l] = match.up > 0 ? sides : [sides[1], sides[0]];
+    return { group, match, final: true, winners: w, losers: l, halved: [] };
+  }
+  // A single side plays within the group once every card is complete: most Stableford points
+  // in a Stableford round, otherwise the lowest net (or gross) total
+  const players = group.sides.flat().map(playerRef);
+  const final = players.length > 1 && players.every((p) => holesPlayed(strokesOf(card, p)) === card.holes.length);
+  if (!final) return { group, final: false, winners: [], losers: [], halved: [] };
+  const rank = (p: string) => {
+    const s = scores.find((x) => x.player === p);
+    return round.format === "stableford" ? -(s?.points ?? 0) : s?.net ?? 0;
+  };
+  const best = Math.min(...players.map(rank));
+  const leaders = players.filter((p) => rank(p) === best);
+  const losers = players.filter((p) => !leaders.includes(p));
+  return leaders.length === 1
+    ? { group, final, winners: leaders, losers, halved: [] }
+    : { group, final, winners: [], losers, halved: leaders };
+}
+
+// A win is worth one point and the stake from each opponent beaten; a half is worth half of both
+function awardsFor(results: GroupResult[], stake: number): PlayerAward[] {
+  const awards = new Map<string, PlayerAward>();
+  const add = (player: string, wins: number, dollars: number) => {
+    const a = awards.get(player) ?? { player, wins: 0, dollars: 0 };
+    awards.set(player, { player, wins: a.wins + wins, dollars: a.dollars + dollars });
+  };
+  for (const r of results.filter((r) => r.final)) {
+    if (r.match) {
+      r.winners.forEach((p) => add(p, 1, stake));
+      r.losers.forEach((p) => add(p, 0, -stake));
+      r.halved.forEach((p) => add(p, 0.5, 0));
+    } else {
+      const pot = r.losers.length * stake;
+      r.winners.forEach((p) => add(p, 1, pot));
+      r.halved.forEach((p) => add(p, 0.5, pot / r.halved.length));
+      r.losers.forEach((p) => add(p, 0, -stake));
+    }
+  }
+  return Array.from(awards.values());
+}
+
+// Course handicaps of everyone on a net card (players without a handicap are left out)
+export function roundHandicaps(round: GolfRound, handicaps: PlayerHandicap[]): Map<string, number> {
+  const card = round.scorecard;
+  const out = new Map<string, number>();
+  if (!card?.net) return out;
+  const par = card.holes.reduce((sum, h) => sum + h.par, 0);
+  for (const s of card.scores) {
+    const index = handicapIndexFor(round, handicaps, s.player);
+    if (index !== undefined) out.set(s.player, courseHandicap(index, round, par));
+  }
+  return out;
+}
+
+export function roundBreakdown(evt: GolfRoundEvent, handicaps: PlayerHandicap[]): RoundBreakdown | null {
+  const card = evt.round.scorecard;
+  if (!card) return null;
+  const courseHandicaps = roundHandicaps(evt.round, handicaps);
+  const players = card.scores.map((s) => {
+    const received = strokesReceived(courseHandicaps.get(s.player) ?? 0, card.holes);
+    return {
+      player: s.player,
+      gross: grossTotal(s.strokes),
+      toPar: scoreToPar(s.strokes, card.holes),
+      thru: holesPlayed(s.strokes),
+      courseHandicap: courseHandicaps.get(s.player),
+      net: netTotal(s.strokes, received),
+      points: stablefordPoints(s.strokes, card.holes, received),
+    };
+  });
+  const groups = evt.round.groups.map((g) => groupResult(card, evt.round, g, courseHandicaps, players));
+  return { event: evt, players, groups, awards: awardsFor(groups, card.stake) };
+}
+
+export function tripBreakdowns(itin: Itinerary): RoundBreakdown[] {
+  const handicaps = participantHandicaps(itin.participants);
+  return itin.days
+    .flatMap((d) => d.events)
+    .filter((e: EventItem): e is GolfRoundEvent => isGolfRound(e))
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime())
+    .map((e) => roundBreakdown(e, handicaps))
+    .filter((b): b is RoundBreakdown => b !== null);
+}
+
+// Once any score is entered the boards come from the scorecards instead of typed totals
+export function hasScores(breakdowns: RoundBreakdown[]): boolean {
+  return breakdowns.some((b) => b.players.some((p) => p.thru > 0));
+}
+
+// Each player's running totals over the trip's rounds; toPar and points only count rounds
+// they've started
+export interface PlayerTotals {
+  player: string;
+  wins: number;
+  dollars: number;
+  toPar: number;
+  points: number;
+  rounds: number;
+}
+
+export function tripTotals(breakdowns: RoundBreakdown[]): PlayerTotals[] {
+  const totals = new Map<string, PlayerTotals>();
+  const get = (player: string) => totals.get(player) ?? { player, wins: 0, dollars: 0, toPar: 0, points: 0, rounds: 0 };
+  for (const b of breakdowns) {
+    for (const p of b.players) {
+      const t = get(p.player);
+      totals.set(p.player, p.thru > 0 ? { ...t, toPar: t.toPar + p.toPar, points: t.points + p.points, rounds: t.rounds + 1 } : t);
+    }
+    for (const a of b.awards) {
+      const t = get(a.player);
+      totals.set(a.player, { ...t, wins: t.wins + a.wins, dollars: t.dollars + a.dollars });
+    }
+  }
+  return Array.from(totals.values());
+}
@@ -0,0 +1,399 @@
+import type { Itinerary } from "@/lib/types";
+import { CURRENT_SCHEMA_VERSION, DEFAULT_EXCHANGE_RATES } from "@/lib/migrations";
+
+// Trip id the seed itinerary is stored under (and the id used before multi-trip support)
+export const SEED_TRIP_ID = "hammer-cup-2025";
+
+// --------------------
+// Seed Data (YOUR latest edits + Leaderboards)
+// --------------------
+export const seedData: Itinerary = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  tripTitle: "2025 Hammer Cup, Ireland",
+  subtitle: "Dublin • Wicklow • Killarney • Kinsale | Sept 6–13, 2025",
+  timeZone: "Europe/Dublin",
+  locale: "en-US",
+  homeBase: "The Westbury, Dublin (first 3 nights)",
+  participants: [
+    { id: "p1", name: "David" },
+    { id: "p2", name: "Steve" },
+    { id: "p3", name: "Pat" },
+    { id: "p4", name: "Bill" },
+    { id: "p5", name: "" },
+    { id: "p6", name: "" },
+    { id: "p7", name: "Brian" },
+    { id: "p8", name: "Rick" },
+  ],
+  bets: [],
+  payments: [],
+  expenses: [],
+  homeCurrency: "USD",
+  exchangeRates: DEFAULT_EXCHANGE_RATES,
+  days: [
+    {
+      id: "2025-09-06",
+      dateLabel: "Sat, Sept 6",
+      city: "Dublin",
+      notes: "Check-in Westbury Hotel. Everyone has rooms booked except Rick and .  Call or text if any issues checking in. Names on rooms. All fully pre-paid.",
+      events: [
+        {
+          id: "sat6-dinner",
+          title: "Dinner (UPDATED) — Amai, across the street from the Westbury (7:00 PM)",
+          location: "Amai, Dublin",
+          start: "2025-09-06T18:00:00Z",
+          end: "2025-09-06T20:00:00Z",
+          notes: "Reservation for 6 people.",
+          reservation: 6,
+          mapQuery: "Amai, Dublin",
+          tags: ["dining"],
+        },
+      ],
+    },
+    {
+      id: "2025-09-07",
+      dateLabel: "Sun, Sept 7",
+      city: "Dublin",
+      notes: "Single caddies requested (~€70 + tip). Pick-up Westbury; ~30 min transfer.",
+      events: [
+        {
+          id: "rdg1",
+          title: "Royal Dublin (3:30pm | 3:40) — Depart 2:00 PM, Return 9:00 PM",
+          location: "Royal Dublin Golf Club, Bull Island, Dublin",
+          start: "2025-09-07T13:00:00Z",
+          end: "2025-09-07T20:00:00Z",
+          mapQuery: "Royal Dublin Golf Club",
+          url: "https://www.royaldublingolfclub.com/",
+          tags: ["golf", "caddie"],
+          round: {
+            course: "Royal Dublin",
+            format: "fourball",
+            groups: [
+              { id: "rdg1-g1", teeTime: "2025-09-07T14:30:00Z", sides: [[{ name: "Levin", handicap: 9 }, { name: "Probst", handicap: 11 }], [{ name: "Moran", handicap: 23 }, { name: "McConnell", handicap: 15 }]] },
+              { id: "rdg1-g2", teeTime: "2025-09-07T14:40:00Z", sides: [[{ name: "Jacobs", handicap: 15 }, { name: "Wallace", handicap: 11 }], [{ name: "Goodman", handicap: 13 }, { name: "Werner", handicap: 15 }]] },
+            ],
+          },
+        },
+        {
+          id: "boxty-dinner",
+          title: "Dinner — Gallagher’s Boxty House (9:30 PM)",
+          location: "Gallagher’s Boxty House, Dublin",
+          start: "2025-09-07T20:30:00Z",
+          end: "2025-09-07T22:00:00Z",
+          notes: "~10 minute walk from Westbury Hotel.",
+          mapQuery: "Gallagher’s Boxty House Dublin",
+          tags: ["dining"],
+        },
+      ],
+    },
+    {
+      id: "2025-09-08",
+      dateLabel: "Mon, Sept 8",
+      city: "Dublin → Baltray → Dublin",
+      notes: "Departure 8:00 AM. Return 4:00 PM. Transfer ~1h10. Dinner 7:30 PM at Marco Pierre White (for 8).",
+      events: [
+        {
+          id: "clg1",
+          title: "County Louth (Baltray) (10:20 | 10:30) Depart 8AM",
+          location: "Co. Louth Golf Club, Baltray",
+          start: "2025-09-08T07:00:00Z",
+          end: "2025-09-08T15:00:00Z",
+          notes: "Classic links; practice green upon arrival.",
+          mapQuery: "County Louth Golf Club Baltray",
+          url: "https://www.countylouthgolfclub.com/",
+          tags: ["golf", "caddie"],
+          round: {
+            course: "County Louth (Baltray)",
+            format: "strokeplay",
+            groups: [
+              { id: "clg1-g1", teeTime: "2025-09-08T09:20:00Z", sides: [] },
+              { id: "clg1-g2", teeTime: "2025-09-08T09:30:00Z", sides: [] },
+            ],
+          },
+        },
+        {
+          id: "dinner-mpw",
+          title: "Dinner — Marco Pierre White (7:30 PM)",
+          location: "Marco Pierre White, Dublin",
+          start: "2025-09-08T18:30:00Z",
+          end: "2025-09-08T20:30:00Z",
+          notes: "Table for 8.",
+          mapQuery: "Marco Pierre White Dublin",
+          tags: ["dining"],
+        },
+      ],
+    },
+    {
+      id: "2025-09-09",
+      dateLabel: "Tue, Sept 9",
+      city: "Dublin",
+      notes: "Departure 12:30 PM. Return 7:30 PM. Dinner 8:30 PM at Delahunt.",
+      events: [
+        {
+          id: "pmk1",
+          title: "Portmarnock Golf Club — (2:10pm | 2:20pm) Leave 11:45am",
+          location: "Portmarnock Golf Club, Co. Dublin",
+          start: "2025-09-09T11:30:00Z",
+          end: "2025-09-09T18:30:00Z",
+          notes: "Wind-breaker + layers; ball markers.",
+          mapQuery: "Portmarnock Golf Club",
+          url: "https://www.portmarnockgolfclub.ie/",
+          tags: ["golf", "caddie"],
+          round: {
+            course: "Portmarnock Golf Club",
+            format: "strokeplay",
+            groups: [
+              { id: "pmk1-g1", teeTime: "2025-09-09T13:10:00Z", sides: [] },
+              { id: "pmk1-g2", teeTime: "2025-09-09T13:20:00Z", sides: [] },
+            ],
+          },
+        },
+        {
+          id: "dinner-delahunt",
+          title: "Dinner — Delahunt (8:30 PM)",
+          location: "Delahunt, 39 Camden Street Lower, Dublin",
+          start: "2025-09-09T19:30:00Z",
+          end: "2025-09-09T21:30:00Z",
+          notes: "Irish contemporary.",
+          mapQuery: "Delahunt Dublin",
+          tags: ["dining"],
+        },
+      ],
+    },
+    {
+      id: "2025-09-10",
+      dateLabel: "Wed, Sept 10",
+      city: "Wicklow (The European Club) → Killarney (overnight)",
+      notes: "Pick-Up: Westbury Hotel. Drop-Off: The European Club (Tee times: 12:32 PM & 12:40 PM). After golf, continue to Killarney Plaza Hotel (~4 hrs drive). Depart 10:30 AM. ~1 hr to the course.",
+      events: [
+        {
+          id: "euroclub",
+          title: "The European Club — Golf (via transfer)",
+          location: "The European Club, tas Bay, Co. Wicklow",
+          start: "2025-09-10T09:30:00Z",
+          end: "2025-09-10T21:30:00Z",
+          notes: "Iconic dunes; Transfer to Killarney after golf. Bring change of clothes for long transfer after golf. Dinner in transit",
+          mapQuery: "The European Club Wicklow",
+          url: "https://www.theeuropeanclub.com/",
+          tags: ["golf"],
+          round: {
+            course: "The European Club",
+            format: "strokeplay",
+            groups: [
+              { id: "euroclub-g1", teeTime: "2025-09-10T11:32:00Z", sides: [] },
+              { id: "euroclub-g2", teeTime: "2025-09-10T11:40:00Z", sides: [] },
+            ],
+          },
+        },
+      ],
+    },
+    {
+      id: "2025-09-11",
+      dateLabel: "Thu, Sept 11",
+      city: "Killarney ↔ Ballybunion (overnight Killarney)",
+      notes: "Overnight in Killarney.",
+      events: [
+        {
+          id: "ballybunion",
+          title: "Ballybunion Old Course — Tee Time 2:00 PM",
+          location: "Ballybunion Golf Club, Co. Kerry",
+          start: "2025-09-11T13:00:00Z",
+          end: "2025-09-11T19:00:00Z",
+          notes: "Steep dunes; consider a caddie for lines.",
+          mapQuery: "Ballybunion Golf Club",
+          url: "https://www.ballybuniongolfclub.com/",
+          tags: ["golf", "caddie"],
+          round: {
+            course: "Ballybunion Old Course",
+            format: "strokeplay",
+            groups: [
+              { id: "ballybunion-g1", teeTime: "2025-09-11T13:00:00Z", sides: [] },
+            ],
+          },
+        },
+        {
+          id: "Tan Yard",
+          title: "Dinner: Tan Yard (at hotel) 9PM",
+          location: "Tan Yard",
+          start: "2025-09-11T21:00:00Z",
+          end: "2025-09-11T23:00:00Z",
+          notes: "Restaurant inside the hotel.",
+          mapQuery: "Tan Yard",
+          url: "https://www.killarneyplaza.com",
+          tags: ["dinner", "wine"],
+        },
+      ],
+    },
+    {
+      id: "2025-09-12",
+      dateLabel: "Fri, Sept 12",
+      city: "Killarney → Waterville → Kinsale (overnight)",
+      notes: "Early start; coffee + breakfast to-go recommended. Overnight in Kinsale. Dinner TBD.",
+      events: [
+        {
+          id: "waterville",
+          title: "Waterville Golf Links — Tee Time 8:10 AM",
+          location: "Waterville, Co. Kerry",
+          start: "2025-09-12T07:00:00Z",
+          end: "2025-09-12T13:00:00Z",
+          notes: "Layer up; coastal breeze.",
+          mapQuery: "Waterville Golf Links",
+          url: "https://www.watervillegolflinks.ie/",
+          tags: ["golf"],
+          round: {
+            course: "Waterville Golf Links",
+            format: "strokeplay",
+            groups: [
+              { id: "waterville-g1", teeTime: "2025-09-12T07:10:00Z", sides: [] },
+            ],
+          },
+        },
+        {
+          id: "tap-taproom",
+          title: "The Tap Taproom — Pint (5:00 PM)",
+          location: "The Tap Taproom, Kinsale",
+          start: "2025-09-12T16:00:00Z",
+          end: "2025-09-12T17:00:00Z",
+          notes: "Meet for a pint. Dinner TBD.",
+          mapQuery: "The Tap Taproom Kinsale",
+          tags: ["drinks"],
+        },
+        {
+          id: "supper club",
+          title: "Dinner at the Supper Club (8:30 PM)",
+          location: "The Supper Club, Kinsale",
+          start: "2025-09-12T19:30:00Z",
+          end: "2025-09-12T21:30:00Z",
+          notes: "Should be a great dinner in a great town.",
+          mapQuery: "The Supper Club Kinsale",
+          tags: ["dining"],
+        },
+      ],
+    },
+    {
+      id: "2025-09-13",
+      dateLabel: "Sat, Sept 13",
+      city: "Kinsale — Old Head → Dublin",
+      notes: "Two groups: morning & late morning. Dramatic cliffs — safety first. Ground Transportation will return to Dublin departing around 4pm. Please book your own room for Saturday night.",
+      events: [
+        {
+          id: "oldhead-early",
+          title: "Old Head Golf Links — Tee Time ~8:00 AM",
+          location: "Old Head Golf Links, Kinsale",
+          start: "2025-09-13T07:00:00Z",
+          end: "2025-09-13T12:30:00Z",
+          notes: "Photo ops on 4, 7, 12, 18.",
+          mapQuery: "Old Head Golf Links Kinsale",
+          url: "https://www.oldhead.com/",
+          tags: ["golf"],
+          round: {
+            course: "Old Head Golf Links",
+            format: "strokeplay",
+            groups: [
+              { id: "oldhead-early-g1", teeTime: "2025-09-13T07:00:00Z", sides: [] },
+            ],
+          },
+        },
+        {
+          id: "oldhead-late",
+          title: "Old Head Golf Links — Tee Time ~11:00 AM",
+          location: "Old Head Golf Links, Kinsale",
+          start: "2025-09-13T10:00:00Z",
+          end: "2025-09-13T15:30:00Z",
+          notes: "Wind picks up; pack extra balls.",
+          mapQuery: "Old Head Golf Links Kinsale",
+          url: "https://www.oldhead.com/",
+          tags: ["golf"],
+          round: {
+            course: "Old Head Golf Links",
+            format: "strokeplay",
+            groups: [
+              { id: "oldhead-late-g1", teeTime: "2025-09-13T10:00:00Z", sides: [] },
+            ],
+          },
+        },
+      ],
+    },
+  ],
+  lodging: [
+    { nights: "Sept 6–9 (Sat–Tue)", name: "The Westbury", city: "Dublin" },
+    { nights: "Nights of Sept 10 & 11 (Wed–Thu)", name: "Killarney Plaza Hotel", city: "Killarney" },
+    { nights: "Night of Sept 12 (Fri)", name: "Actons / Trident / Old Bank Hotel", city: "Kinsale" },
+  ],
+  tips: [
+    "Singles caddies preferred when available.",
+    "Bring rain gloves + waterproofs; pack layers.",
+    "Cash for tips; cards for pro shops/dining.",
+    "Allow extra transfer buffers for coastal routes.",
+    "Everyone books their own hotels.",
+    "Sprinter will take us to Dublin on Sat after golf.",
+    "Hotel Breakfasts Included",
+  ],
+  reminders: [{ tag: "golf", minutesBefore: 90 }],
+  // NEW: leaderboards (Brit, Jeff and Wally aren't on the roster yet)
+  leaderboards: [
+    {
+      id: "grossDollars",
+      name: "Gross Dollars",
+      sort: "high",
+      format: "money",
+      tieBreak: "shared",
+      source: "ledger",
+      rows: [
+        { player: "p1",    score: -7 },
+        { player: "Brit",  score: -50 },
+        { player: "p4",    score: +6 },
+        { player: "p3",    score: +11 },
+        { player: "p2",    score: -76 },
+        { player: "Jeff",  score: +41 },
+        { player: "Wally", score: +82 },
+        { player: "p8",    score: +3 },
+      ],
+    },
+    {
+      id: "totalWins",
+      name: "Total Wins",
+      sort: "high",
+      format: "number",
+      tieBreak: "countback",
+      source: "wins",
+      rows: [
+        { player: "p8",    score: 3.5 },
+        { player: "p4",    score: 4.0 },
+        { player: "p3",    score: 3.5 },
+        { player: "Wally", score: 5.5 },
+        { player: "p1",    score: 3 },
+        { player: "Brit",  score: 1.5 },
+        { player: "Jeff",  score: 5.0 },
+        { player: "p2",    score: 1.5 },
+      ],
+    },
+  ],
+  // Where the boards stood after the first two rounds
+  leaderboardHistory: [
+    {
+      dayId: "2025-09-08",
+      boards: {
+        grossDollars: [
+          { player: "p1",    score: +14 },
+          { player: "Brit",  score: -22 },
+          { player: "p4",    score: -9 },
+          { player: "p3",    score: +18 },
+          { player: "p2",    score: -31 },
+          { player: "Jeff",  score: +6 },
+          { player: "Wally", score: +27 },
+          { player: "p8",    score: -3 },
+        ],
+        totalWins: [
+          { player: "p8",    score: 1 },
+          { player: "p4",    score: 1.5 },
+          { player: "p3",    score: 2 },
+          { player: "Wally", score: 2 },
+          { player: "p1",    score: 1.5 },
+          { player: "Brit",  score: 0.5 },
+          { player: "Jeff",  score: 1.5 },
+          { player: "p2",    score: 0 },
+        ],
+      },
+    },
+  ],
+};
@@ -0,0 +1,138 @@
+import type { BoardSource, Itinerary, Leaderboard, LeaderboardEntry, LeaderboardSnapshot } from "@/lib/types";
+import { toNumber, type RoundBreakdown } from "@/lib/scoring";
+import { cents, type LedgerLine } from "@/lib/ledger";
+import { sourceRows } from "@/lib/leaderboards";
+
+// --------------------
+// Standings over the trip
+// --------------------
+// A board as it stood at the end of a day
+export interface StandingsPoint {
+  dayId: string;
+  rows: LeaderboardEntry[];
+}
+
+export interface Placing {
+  place: number;
+  tied: boolean; // shown as "T3"
+}
+
+export type Standing<T extends LeaderboardEntry = LeaderboardEntry> = T & Placing;
+
+export const placeLabel = (s: Placing): string => `${s.tied ? "T" : ""}${s.place}`;
+
+const scoresByPlayer = (rows: LeaderboardEntry[]) => new Map(rows.filter((r) => r.player).map((r) => [r.player, toNumber(r.score)]));
+
+export function sameStandings(a: LeaderboardEntry[], b: LeaderboardEntry[]): boolean {
+  const x = scoresByPlayer(a);
+  const y = scoresByPlayer(b);
+  return x.size === y.size && Array.from(x).every(([player, score]) => y.get(player) === score);
+}
+
+// Countback compares what each player gained on the last day, then the day before, and so on
+function countback(player: string, points: StandingsPoint[]): number[] {
+  const scores = points.map((p) => toNumber(p.rows.find((r) => r.player === player)?.score ?? 0));
+  return scores.map((s, i) => cents(s - (i ? scores[i - 1] : 0))).reverse();
+}
+
+// Best first by the board's sort; players still level after the tie-break share a place, and
+// rows without a player keep their spot at the bottom
+export function rankRows<T extends LeaderboardEntry>(board: Pick<Leaderboard, "sort" | "tieBreak">, rows: T[], history: StandingsPoint[] = []): Standing<T>[] {
+  const direction = board.sort === "low" ? 1 : -1;
+  const points = board.tieBreak === "countback" ? timeline(history, rows) : [];
+  const keyed = rows.map((row) => ({ row, key: [toNumber(row.score), ...(row.player ? countback(row.player, points) : [])] }));
+  const compare = (a: (typeof keyed)[number], b: (typeof keyed)[number]) => {
+    const blank = Number(!a.row.player) - Number(!b.row.player);
+    if (blank) return blank;
+    for (let i = 0; i < Math.max(a.key.length, b.key.length); i++) {
+      const d = (a.key[i] ?? 0) - (b.key[i] ?? 0);
+      if (d) return direction * d;
+    }
+    return 0;
+  };
+  const sorted = [...keyed].sort(compare);
+  return sorted.map((x) => ({
+    ...x.row,
+    place: 1 + sorted.filter((y) => compare(y, x) < 0).length,
+    tied: !!x.row.player && sorted.some((y) => y !== x && compare(y, x) === 0),
+  }));
+}
+
+// Typed boards only move when someone saves the day's standings
+export function savedHistory(history: LeaderboardSnapshot[], boardId: string): StandingsPoint[] {
+  return [...history]
+    .sort((a, b) => a.dayId.localeCompare(b.dayId))
+    .filter((s) => s.boards[boardId])
+    .map((s) => ({ dayId: s.dayId, rows: s.boards[boardId] }));
+}
+
+// Replaces any snapshot already saved for the day
+export function withSnapshot(history: LeaderboardSnapshot[], dayId: string, boards: Leaderboard[]): LeaderboardSnapshot[] {
+  const snapshot = { dayId, boards: Object.fromEntries(boards.map((b) => [b.id, b.rows.filter((r) => r.player)])) };
+  return [...history.filter((s) => s.dayId !== dayId), snapshot].sort((a, b) => a.dayId.localeCompare(b.dayId));
+}
+
+// Boards worked out from scorecards and the ledger, cumulative to the end of every day that
+// added to them. Bets aren't tied to a day, so they only count towards the current board.
+export function computedHistory(itin: Itinerary, breakdowns: RoundBreakdown[], lines: LedgerLine[], source: BoardSource): StandingsPoint[] {
+  const dayOf = new Map(itin.days.flatMap((d) => d.events.map((e) => [e.id, d.id] as const)));
+  const days = itin.days.map((d) => d.id).sort();
+  const points: StandingsPoint[] = [];
+  for (const dayId of days) {
+    const upTo = (eventId?: string) => eventId !== undefined && dayOf.has(eventId) && dayOf.get(eventId)! <= dayId;
+    const on = (eventId?: string) => eventId !== undefined && dayOf.get(eventId) === dayId;
+    const changed = source === "ledger"
+      ? lines.some((l) => on(l.eventId))
+      : breakdowns.some((b) => on(b.event.id) && b.players.some((p) => p.thru > 0));
+    if (!changed) continue;
+    const rows = sourceRows(source, breakdowns.filter((b) => upTo(b.event.id)), lines.filter((l) => upTo(l.eventId)));
+    if (rows) points.push({ dayId, rows });
+  }
+  return points;
+}
+
+// What the board is being compared with: the latest point that isn't the board as it is now
+export function previousStandings(history: StandingsPoint[], current: LeaderboardEntry[]): StandingsPoint | undefined {
+  return [...history].reverse().find((p) => !sameStandings(p.rows, current));
+}
+
+export interface Movement {
+  places: number; // positive when the player moved up
+  delta: number;  // change in score
+}
+
+// Players new to the board have no movement
+export function movements(before: Standing[], after: Standing[]): Map<string, Movement> {
+  const was = new Map(before.filter((r) => r.player).map((r) => [r.player, r]));
+  const out = new Map<string, Movement>();
+  for (const r of after) {
+    const prev = r.player ? was.get(r.player) : undefined;
+    if (prev) out.set(r.player, { places: prev.place - r.place, delta: cents(toNumber(r.score) - toNumber(prev.score)) });
+  }
+  return out;
+}
+
+// The history with the current board as its last point; dayId is "" for a board that has moved
+// since the last saved or scored day
+export function timeline(history: StandingsPoint[], current: LeaderboardEntry[]): StandingsPoint[] {
+  const last = history[history.length - 1];
+  return last && sameStandings(last.rows, current) ? history : [...history, { dayId: "", rows: current }];
+}
+
+export interface Series {
+  player: string;
+  scores: (number | null)[]; // null before the player was on the board
+}
+
+// One line per player across the timeline, leaders at the current point first
+export function cumulativeSeries(board: Pick<Leaderboard, "sort" | "tieBreak">, points: StandingsPoint[]): Series[] {
+  const last = points[points.length - 1]?.rows ?? [];
+  const players = Array.from(new Set([...rankRows(board, last), ...points.flatMap((p) => p.rows)].map((r) => r.player).filter(Boolean)));
+  return players.map((player) => ({
+    player,
+    scores: points.map((p) => {
+      const row = p.rows.find((r) => r.player === player);
+      return row ? toNumber(row.score) : null;
+    }),
+  }));
+}
@@ -0,0 +1,88 @@
+// --------------------
+// Time-zone helpers (wall-clock time in a named IANA zone <-> stored ISO instants)
+// --------------------
+export const DEFAULT_TIME_ZONE = "Europe/Dublin";
+export const DEFAULT_LOCALE = "en-US";
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf([locale]).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+// The viewer's own zone, for "show in my home time zone"
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export function wallClock(input: string | number | Date, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(new Date(input));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute") };
+}
+
+// Offset of the zone from UTC at the given instant, in ms (Dublin summer time → +3600000)
+export function zoneOffsetMs(instant: number, timeZone: string): number {
+  const w = wallClock(instant, timeZone);
+  const asUTC = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute);
+  return asUTC - Math.floor(instant / 60000) * 60000;
+}
+
+// "YYYY-MM-DDTHH:mm" in the zone, the format <input type="datetime-local"> expects
+export function toZonedInputValue(iso: string, timeZone: string): string {
+  const t = new Date(iso).getTime();
+  if (isNaN(t)) return "";
+  const w = wallClock(t, timeZone);
+  return `${w.year}-${pad(w.month)}-${pad(w.day)}T${pad(w.hour)}:${pad(w.minute)}`;
+}
+
+// Inverse of toZonedInputValue; returns "" for unparseable input
+export function fromZonedInputValue(value: string, timeZone: string): string {
+  const m = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!m) return "";
+  const naive = Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5]);
+  // Two passes settle the offset even when the first guess lands across a DST change
+  let instant = naive - zoneOffsetMs(naive, timeZone);
+  instant = naive - zoneOffsetMs(instant, timeZone);
+  return new Date(instant).toISOString();
+}
+
+// YYYY-MM-DD of the instant as seen in the zone
+export function zonedDateKey(input: string | number | Date, timeZone: string): string {
+  const w = wallClock(input, timeZone);
+  return `${w.year}-${pad(w.month)}-${pad(w.day)}`;
+}
+
+// Short zone name for labels, e.g. "IST" or "GMT+1"
+export function zoneAbbreviation(input: string | number | Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" }).formatToParts(new Date(input));
+  return parts.find((p) => p.type === "timeZoneName")?.value ?? timeZone;
+}
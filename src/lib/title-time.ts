@@ -0,0 +1,45 @@
+import type { EventItem } from "@/lib/types";
+import { wallClock } from "@/lib/timezone";
+
+// --------------------
+// Times typed into event titles ("Tee Time 2:00 PM", "(3:30pm | 3:40)", "9PM")
+// --------------------
+export interface TitleTime {
+  text: string;
+  hour: number; // 0–23 when meridiem is known, else 1–12 as written
+  minute: number;
+  meridiem?: "am" | "pm";
+}
+
+// A time needs minutes or an am/pm marker so that "Sept 6" or "(9)" aren't read as times
+const TIME_RE = /\b(\d{1,2})(?!\d)(?::([0-5]\d))?\s*(?:([ap])\.?m\b\.?)?/gi;
+
+export function extractTitleTimes(title: string): TitleTime[] {
+  const out: TitleTime[] = [];
+  for (const m of title.matchAll(TIME_RE)) {
+    const [text, h, min, ap] = m;
+    if (min === undefined && ap === undefined) continue;
+    let hour = Number(h);
+    if (hour > 23) continue;
+    const meridiem = ap ? (ap.toLowerCase() === "a" ? "am" : "pm") : undefined;
+    if (meridiem && hour > 12) continue;
+    if (meridiem === "pm" && hour < 12) hour += 12;
+    if (meridiem === "am" && hour === 12) hour = 0;
+    out.push({ text: text.trim(), hour, minute: Number(min ?? 0), meridiem });
+  }
+  return out;
+}
+
+function matchesClock(t: TitleTime, hour: number, minute: number): boolean {
+  if (t.minute !== minute) return false;
+  if (t.meridiem || t.hour > 12) return t.hour === hour;
+  return t.hour % 12 === hour % 12;
+}
+
+// The title's stated time when none of the times in the title match the event's start, else null
+export function titleTimeMismatch(evt: EventItem, timeZone: string): string | null {
+  const times = extractTitleTimes(evt.title || "");
+  if (!times.length || isNaN(new Date(evt.start).getTime())) return null;
+  const { hour, minute } = wallClock(evt.start, timeZone);
+  return times.some((t) => matchesClock(t, hour, minute)) ? null : times.map((t) => t.text).join(" / ");
+}
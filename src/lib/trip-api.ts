@@ -0,0 +1,119 @@
+import type { Itinerary } from "@/lib/types";
+import type { CreateTripRequest, TripSummary } from "@/lib/trips";
+import type { TripEvent, Viewer } from "@/lib/trip-events";
+import type { Conflict, Operation } from "@/lib/operations";
+import type { ChangeSummary } from "@/lib/history";
+
+// --------------------
+// Client helpers for /api/trips
+// --------------------
+function tripURL(tripId: string): string {
+  return `/api/trips/${encodeURIComponent(tripId)}`;
+}
+
+// Resolves to the stored JSON (run it through migrateItinerary) and the revision it's at, or
+// null when the server has no copy yet; rejects when the server is unreachable
+export async function fetchTripWithRevision(tripId: string): Promise<{ raw: unknown; revision: number } | null> {
+  const res = await fetch(tripURL(tripId), { cache: "no-store" });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Failed to load trip (${res.status})`);
+  return { raw: (await res.json()) as unknown, revision: Number(res.headers.get("X-Trip-Revision")) || 0 };
+}
+
+export async function fetchTrip(tripId: string): Promise<unknown | null> {
+  return (await fetchTripWithRevision(tripId))?.raw ?? null;
+}
+
+// Identifies one open page, so it can ignore the live echo of its own saves
+export function newClientId(): string {
+  return `client-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+// Replaces the whole trip and resolves to its new revision; edits to a trip the page already
+// has should go through sendOps so they merge with everyone else's
+export async function saveTrip(tripId: string, itin: Itinerary, clientId = "", author = ""): Promise<number> {
+  const res = await fetch(tripURL(tripId), {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", "X-Client-Id": clientId, "X-Author": encodeURIComponent(author) },
+    body: JSON.stringify(itin),
+  });
+  if (!res.ok) throw new Error(`Failed to save trip (${res.status})`);
+  return ((await res.json()) as { revision: number }).revision;
+}
+
+export interface OpsRequest {
+  baseRevision: number; // the revision the operations were made against
+  ops: Operation[];
+  author: string;
+}
+
+export interface OpsResult {
+  trip: Itinerary; // as merged on the server
+  revision: number;
+  conflicts: Conflict[]; // operations that weren't applied
+}
+
+export async function sendOps(tripId: string, request: OpsRequest, clientId = ""): Promise<OpsResult> {
+  const res = await fetch(`${tripURL(tripId)}/ops`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Client-Id": clientId },
+    body: JSON.stringify(request),
+  });
+  if (!res.ok) throw new Error(`Failed to save changes (${res.status})`);
+  return (await res.json()) as OpsResult;
+}
+
+export async function fetchHistory(tripId: string): Promise<ChangeSummary[]> {
+  const res = await fetch(`${tripURL(tripId)}/history`, { cache: "no-store" });
+  if (!res.ok) throw new Error(`Failed to load the change log (${res.status})`);
+  return ((await res.json()) as { changes: ChangeSummary[] }).changes;
+}
+
+// The trip as it was at an earlier revision; run it through migrateItinerary
+export async function fetchVersion(tripId: string, revision: number): Promise<unknown> {
+  const res = await fetch(`${tripURL(tripId)}/history/${revision}`, { cache: "no-store" });
+  if (res.status === 404) throw new Error("That version is no longer in the change log");
+  if (!res.ok) throw new Error(`Failed to load that version (${res.status})`);
+  return (await res.json()) as unknown;
+}
+
+export interface TripStreamHandlers {
+  onTrip: (raw: unknown, revision: number) => void; // saved by another page; run it through migrateItinerary
+  onPresence: (viewers: Viewer[]) => void;
+  onLive: (live: boolean) => void; // false while the browser is reconnecting
+}
+
+// Opens the live stream for a trip and returns a function that closes it; EventSource
+// reconnects on its own after a dropped connection
+export function subscribeToTrip(tripId: string, viewer: Viewer, handlers: TripStreamHandlers): () => void {
+  const query = new URLSearchParams({ client: viewer.clientId, name: viewer.name });
+  const source = new EventSource(`${tripURL(tripId)}/events?${query}`);
+  const parse = (e: Event) => JSON.parse((e as MessageEvent<string>).data) as TripEvent;
+  source.addEventListener("trip", (e) => {
+    const event = parse(e);
+    if (event.type === "trip" && event.from !== viewer.clientId) handlers.onTrip(event.trip, event.revision);
+  });
+  source.addEventListener("presence", (e) => {
+    const event = parse(e);
+    if (event.type === "presence") handlers.onPresence(event.viewers);
+  });
+  source.onopen = () => handlers.onLive(true);
+  source.onerror = () => handlers.onLive(false);
+  return () => source.close();
+}
+
+export async function fetchTrips(): Promise<TripSummary[]> {
+  const res = await fetch("/api/trips", { cache: "no-store" });
+  if (!res.ok) throw new Error(`Failed to load trips (${res.status})`);
+  return (await res.json()) as TripSummary[];
+}
+
+export async function createTrip(request: CreateTripRequest): Promise<string> {
+  const res = await fetch("/api/trips", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  if (!res.ok) throw new Error(`Failed to create trip (${res.status})`);
+  return ((await res.json()) as { id: string }).id;
+}
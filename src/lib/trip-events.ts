@@ -0,0 +1,44 @@
+import type { Itinerary } from "@/lib/types";
+
+// --------------------
+// Live trip updates for open pages (server side)
+// --------------------
+// Subscribers are held in this process's memory, which suits the single Node server the app
+// runs on; spreading the app over several servers would need a shared broker instead.
+export interface Viewer {
+  clientId: string; // one per open page
+  name: string;
+}
+
+export type TripEvent =
+  | { type: "trip"; trip: Itinerary; revision: number; from: string } // from: the client id that saved it
+  | { type: "presence"; viewers: Viewer[] };
+
+interface Subscriber extends Viewer {
+  send: (event: TripEvent) => void;
+}
+
+// Kept on globalThis so dev-mode module reloads don't strand open streams
+const hub = globalThis as typeof globalThis & { __tripSubscribers?: Map<string, Set<Subscriber>> };
+const subscribers: Map<string, Set<Subscriber>> = (hub.__tripSubscribers ??= new Map());
+
+export function viewersOf(tripId: string): Viewer[] {
+  return Array.from(subscribers.get(tripId) ?? [], ({ clientId, name }) => ({ clientId, name }));
+}
+
+export function publish(tripId: string, event: TripEvent): void {
+  for (const s of subscribers.get(tripId) ?? []) s.send(event);
+}
+
+// Everyone on the trip, the new page included, hears the updated presence list
+export function subscribe(tripId: string, viewer: Viewer, send: (event: TripEvent) => void): () => void {
+  const subscriber: Subscriber = { ...viewer, send };
+  const set = subscribers.get(tripId) ?? new Set<Subscriber>();
+  subscribers.set(tripId, set.add(subscriber));
+  publish(tripId, { type: "presence", viewers: viewersOf(tripId) });
+  return () => {
+    set.delete(subscriber);
+    if (!set.size) subscribers.delete(tripId);
+    publish(tripId, { type: "presence", viewers: viewersOf(tripId) });
+  };
+}
@@ -0,0 +1,95 @@
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { Itinerary } from "@/lib/types";
+import { diffOps } from "@/lib/operations";
+import { blankItinerary } from "@/lib/trips";
+
+// The store reads its directory when it loads, so point it at a scratch one first
+const dir = mkdtempSync(path.join(os.tmpdir(), "trips-"));
+process.env.TRIP_DATA_DIR = dir;
+type Store = typeof import("@/lib/trip-store");
+let store: Store;
+
+beforeAll(async () => { store = await import("@/lib/trip-store"); });
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const alice = { author: "Alice", clientId: "phone-a" };
+const bob = { author: "Bob", clientId: "phone-b" };
+
+function trip(): Itinerary {
+  return {
+    ...blankItinerary("Hammer Cup"),
+    days: [{ id: "2025-09-07", city: "Dublin", events: [{ id: "golf", title: "Royal Dublin", location: "Dollymount", start: "2025-09-07T13:30:00Z", end: "2025-09-07T18:30:00Z" }] }],
+  };
+}
+
+function edited(fn: (itin: Itinerary) => void) {
+  const after = trip();
+  fn(after);
+  return diffOps(trip(), after);
+}
+
+describe("commitOps", () => {
+  it("merges two pages editing different fields from the same revision", async () => {
+    const base = await store.replaceTrip("different", trip(), alice);
+    const a = await store.commitOps("different", base, edited((t) => { t.days[0]!.events[0]!.title = "The Island"; }), alice);
+    const b = await store.commitOps("different", base, edited((t) => { t.days[0]!.events[0]!.location = "Donabate"; }), bob);
+    expect(a!.conflicts).toEqual([]);
+    expect(b!.conflicts).toEqual([]);
+    expect(b!.revision).toBe(base + 2);
+    expect((await store.readTrip("different"))!.days[0]!.events[0]).toMatchObject({ title: "The Island", location: "Donabate" });
+  });
+
+  it("sends back the second edit to the same field as a conflict and keeps the first", async () => {
+    const base = await store.replaceTrip("same", trip(), alice);
+    await store.commitOps("same", base, edited((t) => { t.days[0]!.events[0]!.start = "2025-09-07T13:40:00Z"; }), alice);
+    const mine = edited((t) => { t.days[0]!.events[0]!.start = "2025-09-07T14:00:00Z"; });
+    const late = await store.commitOps("same", base, mine, bob);
+    expect(late!.revision).toBe(base + 1);
+    expect(late!.conflicts).toHaveLength(1);
+    expect(late!.conflicts[0]!.mine).toEqual(mine[0]);
+    expect(late!.trip.days[0]!.events[0]!.start).toBe("2025-09-07T13:40:00Z");
+  });
+
+  it("returns every operation as a conflict when the base revision is older than the log", async () => {
+    let revision = await store.replaceTrip("stale", trip(), alice);
+    const stale = revision;
+    // The log keeps the last 200 changes, so after 201 it no longer reaches back to `stale`
+    for (let i = 0; i < 201; i++) {
+      revision = (await store.commitOps("stale", revision, edited((t) => { t.days[0]!.events[0]!.notes = `Tee sheet ${i}`; }), alice))!.revision;
+    }
+    const mine = edited((t) => { t.days[0]!.events[0]!.title = "The Island"; });
+    const result = await store.commitOps("stale", stale, mine, bob);
+    expect(result!.revision).toBe(revision);
+    expect(result!.conflicts).toEqual([{ mine: mine[0], theirs: { op: "set", path: mine[0]!.path, value: "Royal Dublin" } }]);
+    expect((await store.readTrip("stale"))!.days[0]!.events[0]!.title).toBe("Royal Dublin");
+  });
+
+  it("still merges from the oldest revision the log reaches", async () => {
+    const { log } = (await store.readTripWithLog("stale"))!;
+    const oldest = log.entries[0]!.revision - 1;
+    const result = await store.commitOps("stale", oldest, edited((t) => { t.days[0]!.events[0]!.title = "The Island"; }), bob);
+    expect(result!.conflicts).toEqual([]);
+    expect(result!.revision).toBe(log.revision + 1);
+  });
+
+  it("returns null for a trip that doesn't exist", async () => {
+    expect(await store.commitOps("missing", 0, [], alice)).toBeNull();
+  });
+});
+
+describe("createTrip", () => {
+  it("gives trips created at once with the same title their own ids", async () => {
+    const ids = await Promise.all([1, 2, 3].map((n) => store.createTrip("Ryder Cup", { ...trip(), subtitle: `Draft ${n}` })));
+    expect([...ids].sort()).toEqual(["ryder-cup", "ryder-cup-2", "ryder-cup-3"]);
+    const subtitles = await Promise.all(ids.map(async (id) => (await store.readTrip(id))!.subtitle));
+    expect(subtitles.sort()).toEqual(["Draft 1", "Draft 2", "Draft 3"]);
+  });
+
+  it("leaves no temporary files behind", async () => {
+    await store.createTrip("Ryder Cup", trip());
+    expect(readdirSync(dir).filter((f) => f.endsWith(".tmp"))).toEqual([]);
+  });
+});
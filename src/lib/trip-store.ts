@@ -0,0 +1,216 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { Itinerary } from "@/lib/types";
+import { SEED_TRIP_ID, seedData } from "@/lib/seed-data";
+import { summarizeTrip, type TripSummary } from "@/lib/trips";
+import { slugify } from "@/lib/utils";
+import { MigrationError, migrateItinerary } from "@/lib/migrations";
+import { validateItinerary } from "@/lib/schema";
+import { applyOps, inverseOps, mergeOps, valueAt, type Conflict, type Operation } from "@/lib/operations";
+import type { LogEntry } from "@/lib/history";
+
+// --------------------
+// Server-side trip storage (one JSON file per trip)
+// --------------------
+const DATA_DIR = process.env.TRIP_DATA_DIR || path.join(process.cwd(), "data", "trips");
+
+// Trip ids become file names, so keep them to a safe slug alphabet
+export function isValidTripId(id: string): boolean {
+  return /^[a-z0-9][a-z0-9-]{0,63}$/i.test(id);
+}
+
+function tripPath(id: string): string {
+  return path.join(DATA_DIR, `${id}.json`);
+}
+
+// The stored JSON exactly as written, which may predate the current schema
+export async function readRawTrip(id: string): Promise<unknown | null> {
+  try {
+    const raw = await fs.readFile(tripPath(id), "utf8");
+    return JSON.parse(raw) as unknown;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+// Throws MigrationError when the stored trip can't be brought up to the current schema
+export async function readTrip(id: string): Promise<Itinerary | null> {
+  const raw = await readRawTrip(id);
+  return raw === null ? null : migrateItinerary(raw);
+}
+
+// Write to a temp file and rename so readers never see a half-written trip
+export async function writeTrip(id: string, itin: Itinerary): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const file = tripPath(id);
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(itin, null, 2), "utf8");
+  await fs.rename(tmp, file);
+}
+
+// --------------------
+// Revisions and the change log
+// --------------------
+// Every saved change bumps the trip's revision and is kept, with what undoes it, in a log beside
+// the trip file. Pages send operations against the revision they last saw and the log tells the
+// server what else has changed since.
+const MAX_LOG_ENTRIES = 200;
+
+export interface TripLogEntry extends LogEntry {
+  clientId: string;
+}
+
+export interface TripLog {
+  revision: number;
+  entries: TripLogEntry[]; // oldest first
+}
+
+export interface ChangeAuthor {
+  author: string;
+  clientId: string;
+}
+
+export interface CommitResult {
+  trip: Itinerary;
+  revision: number;
+  conflicts: Conflict[];
+}
+
+function logPath(id: string): string {
+  return path.join(DATA_DIR, `${id}.log.json`);
+}
+
+// Trips written before revisions existed start at 0 with an empty log
+async function readTripLog(id: string): Promise<TripLog> {
+  try {
+    return JSON.parse(await fs.readFile(logPath(id), "utf8")) as TripLog;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return { revision: 0, entries: [] };
+    throw err;
+  }
+}
+
+async function writeTripLog(id: string, log: TripLog): Promise<void> {
+  const file = logPath(id);
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(log), "utf8");
+  await fs.rename(tmp, file);
+}
+
+// One change at a time per trip, so two saves can't interleave their read, merge and write
+const locks = new Map<string, Promise<unknown>>();
+function withTripLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+  const run = (locks.get(id) ?? Promise.resolve()).catch(() => undefined).then(fn);
+  locks.set(id, run);
+  return run.finally(() => { if (locks.get(id) === run) locks.delete(id); });
+}
+
+async function record(id: string, log: TripLog, before: Itinerary | null, after: Itinerary, ops: Operation[], who: ChangeAuthor): Promise<number> {
+  const revision = log.revision + 1;
+  const entry: TripLogEntry = { revision, at: new Date().toISOString(), ...who, ops, inverse: before ? inverseOps(before, ops) : [] };
+  await writeTrip(id, after);
+  await writeTripLog(id, { revision, entries: [...log.entries, entry].slice(-MAX_LOG_ENTRIES) });
+  return revision;
+}
+
+// Applies a page's operations on top of whatever was saved since the revision it started from.
+// Operations that touch something changed in the meantime come back as conflicts instead.
+export async function commitOps(id: string, baseRevision: number, ops: Operation[], who: ChangeAuthor): Promise<CommitResult | null> {
+  return withTripLock(id, async () => {
+    const trip = await readTrip(id);
+    if (!trip) return null;
+    const log = await readTripLog(id);
+    // A revision older than the log reaches can't be checked, so every operation comes back as a
+    // conflict with what's stored now and the page settles them
+    const oldest = log.entries[0]?.revision ?? log.revision + 1;
+    if (baseRevision < oldest - 1) {
+      const stale = ops.map((op): Conflict => ({ mine: op, theirs: { op: "set", path: op.path, value: valueAt(trip, op.path) } }));
+      return { trip, revision: log.revision, conflicts: stale };
+    }
+    const since = log.entries.filter((e) => e.revision > baseRevision).flatMap((e) => e.ops);
+    const { clean, conflicts } = mergeOps(ops, since);
+    if (!clean.length) return { trip, revision: log.revision, conflicts };
+    const next = applyOps(trip, clean);
+    const issues = validateItinerary(next);
+    if (issues.length) throw new MigrationError("The merged trip failed validation", issues);
+    return { trip: next, revision: await record(id, log, trip, next, clean, who), conflicts };
+  });
+}
+
+// The stored JSON and its revision read together, so a save can't land between the two
+export async function readRawTripWithRevision(id: string): Promise<{ raw: unknown; revision: number } | null> {
+  return withTripLock(id, async () => {
+    const raw = await readRawTrip(id);
+    return raw === null ? null : { raw, revision: (await readTripLog(id)).revision };
+  });
+}
+
+// The trip and its log read together, so neither is caught halfway through a save
+export async function readTripWithLog(id: string): Promise<{ trip: Itinerary; log: TripLog } | null> {
+  return withTripLock(id, async () => {
+    const trip = await readTrip(id);
+    return trip && { trip, log: await readTripLog(id) };
+  });
+}
+
+// Whole-trip writes (imports, uploads) are logged as one operation that replaces everything, so
+// they conflict with any edit made alongside them. Unreadable stored data is simply replaced.
+export async function replaceTrip(id: string, itin: Itinerary, who: ChangeAuthor): Promise<number> {
+  return withTripLock(id, async () => {
+    const before = await readTrip(id).catch((err) => {
+      if (err instanceof MigrationError) return null;
+      throw err;
+    });
+    return record(id, await readTripLog(id), before, itin, [{ op: "set", path: [], value: itin }], who);
+  });
+}
+
+// A fresh installation starts with the seed trip so the index is never empty
+export async function listTrips(): Promise<TripSummary[]> {
+  let files: string[] = [];
+  try {
+    files = (await fs.readdir(DATA_DIR)).filter((f) => f.endsWith(".json") && !f.endsWith(".log.json"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+  if (!files.length) {
+    await writeTrip(SEED_TRIP_ID, seedData);
+    files = [`${SEED_TRIP_ID}.json`];
+  }
+  const trips: TripSummary[] = [];
+  for (const file of files) {
+    const id = file.slice(0, -".json".length);
+    try {
+      const itin = await readTrip(id);
+      if (itin) trips.push(summarizeTrip(id, itin));
+    } catch (err) {
+      if (!(err instanceof MigrationError)) throw err;
+      trips.push({ id, tripTitle: id, subtitle: "Stored data needs recovery" });
+    }
+  }
+  return trips.sort((a, b) => b.tripTitle.localeCompare(a.tripTitle));
+}
+
+// Saves a new trip under a file-safe id derived from the title, suffixing -2, -3… on collision.
+// The finished file is hard-linked into place, which fails if the name is taken, so two trips
+// created with the same title at once can't land on the same id.
+export async function createTrip(title: string, itin: Itinerary): Promise<string> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const base = slugify(title).slice(0, 56) || "trip";
+  const tmp = path.join(DATA_DIR, `${base}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`);
+  await fs.writeFile(tmp, JSON.stringify(itin, null, 2), "utf8");
+  try {
+    for (let n = 1; ; n++) {
+      const id = n === 1 ? base : `${base}-${n}`;
+      try {
+        await fs.link(tmp, tripPath(id));
+        return id;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      }
+    }
+  } finally {
+    await fs.unlink(tmp);
+  }
+}
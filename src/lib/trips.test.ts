@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { GolfRoundEvent, Itinerary } from "@/lib/types";
+import { blankItinerary, cloneItinerary } from "@/lib/trips";
+import { defaultHoles, hasScores, tripBreakdowns } from "@/lib/scoring";
+import { ledgerLines } from "@/lib/ledger";
+import { cupMatches, cupScore } from "@/lib/cup";
+
+const holes = defaultHoles();
+
+// Alice beats Bob by a shot a hole, and wins closest to the pin; Carol's match with Dan was
+// typed in by hand
+const round: GolfRoundEvent = {
+  id: "golf",
+  title: "Royal Dublin",
+  location: "Dollymount",
+  start: "2025-09-07T08:00:00Z",
+  end: "2025-09-07T13:00:00Z",
+  uid: "abc@operator.example",
+  round: {
+    course: "Royal Dublin",
+    format: "singles",
+    groups: [
+      { id: "grp-1", teeTime: "2025-09-07T08:00:00Z", sides: [[{ name: "Alice", participantId: "p-alice" }], [{ name: "Bob", participantId: "p-bob" }]] },
+      { id: "grp-2", teeTime: "2025-09-07T08:10:00Z", sides: [[{ name: "Carol", participantId: "p-carol" }], [{ name: "Dan", participantId: "p-dan" }]], result: "A" },
+    ],
+    scorecard: {
+      holes,
+      stake: 10,
+      net: false,
+      scores: [
+        { player: "p-alice", strokes: holes.map((h) => h.par) },
+        { player: "p-bob", strokes: holes.map((h) => h.par + 1) },
+      ],
+    },
+    games: [{ id: "game-1", kind: "closest", stake: 5, players: [], hole: 4, winner: "p-alice" }],
+  },
+};
+
+const lastYear: Itinerary = {
+  ...blankItinerary("Hammer Cup 2025"),
+  participants: [{ id: "p-alice", name: "Alice" }, { id: "p-bob", name: "Bob" }, { id: "p-carol", name: "Carol" }, { id: "p-dan", name: "Dan" }],
+  days: [{ id: "2025-09-07", city: "Dublin", events: [round] }],
+  cup: {
+    name: "Hammer Cup",
+    teams: [
+      { name: "Europe", captain: "p-alice", color: "#1d4ed8", players: ["p-alice", "p-carol"] },
+      { name: "USA", captain: "p-bob", color: "#b91c1c", players: ["p-bob", "p-dan"] },
+    ],
+  },
+};
+
+describe("cloneItinerary", () => {
+  const clone = cloneItinerary(lastYear, "Hammer Cup 2026");
+
+  it("keeps the plan, pairings and course", () => {
+    expect(clone.tripTitle).toBe("Hammer Cup 2026");
+    expect(clone.participants).toEqual(lastYear.participants);
+    const evt = clone.days[0]!.events[0]!;
+    expect(evt.round!.groups.map((g) => g.sides)).toEqual(round.round.groups.map((g) => g.sides));
+    expect(clone.cup).toEqual(lastYear.cup);
+    expect(evt.round!.scorecard!.holes).toEqual(holes);
+    expect(evt.round!.scorecard!.stake).toBe(10);
+  });
+
+  it("drops imported calendar UIDs", () => {
+    expect(clone.days[0]!.events[0]!.uid).toBeUndefined();
+  });
+
+  it("starts with no strokes entered and no side-game winners", () => {
+    const card = clone.days[0]!.events[0]!.round!.scorecard!;
+    expect(card.scores.map((s) => s.player)).toEqual(["p-alice", "p-bob"]);
+    expect(card.scores.every((s) => s.strokes.every((n) => n === null))).toBe(true);
+    expect(clone.days[0]!.events[0]!.round!.games![0]!.winner).toBeUndefined();
+  });
+
+  it("shows no totals or dollars from last year", () => {
+    expect(hasScores(tripBreakdowns(lastYear))).toBe(true);
+    expect(ledgerLines(lastYear, tripBreakdowns(lastYear))).not.toEqual([]);
+    expect(hasScores(tripBreakdowns(clone))).toBe(false);
+    expect(ledgerLines(clone, tripBreakdowns(clone))).toEqual([]);
+  });
+
+  it("starts the cup at nil-all with every match still to play", () => {
+    expect(cupScore(cupMatches(lastYear))).toEqual([2, 0]);
+    expect(cupScore(cupMatches(clone))).toEqual([0, 0]);
+    expect(cupMatches(clone).map((m) => m.status)).toEqual(["Not started", "Not started"]);
+    expect(clone.days[0]!.events[0]!.round!.groups[1]!.result).toBeUndefined();
+  });
+
+  it("leaves the trip it copied alone", () => {
+    expect(lastYear.days[0]!.events[0]!.round!.scorecard!.scores[0]!.strokes[0]).toBe(4);
+    expect(lastYear.days[0]!.events[0]!.round!.games![0]!.winner).toBe("p-alice");
+  });
+});
@@ -0,0 +1,73 @@
+import type { Itinerary, LeaderboardEntry } from "@/lib/types";
+import { computedSubtitle } from "@/lib/format";
+import { CURRENT_SCHEMA_VERSION, DEFAULT_EXCHANGE_RATES, DEFAULT_REMINDERS } from "@/lib/migrations";
+import { DEFAULT_LOCALE, DEFAULT_TIME_ZONE } from "@/lib/timezone";
+import { defaultLeaderboards } from "@/lib/leaderboards";
+
+// --------------------
+// Trip creation helpers
+// --------------------
+export interface TripSummary {
+  id: string;
+  tripTitle: string;
+  subtitle: string;
+}
+
+export interface CreateTripRequest {
+  title: string;
+  cloneFrom?: string; // trip id to copy; omit for a blank trip
+}
+
+export function summarizeTrip(id: string, itin: Itinerary): TripSummary {
+  return { id, tripTitle: itin.tripTitle, subtitle: computedSubtitle(itin) };
+}
+
+export function blankItinerary(title: string): Itinerary {
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    tripTitle: title,
+    subtitle: "",
+    timeZone: DEFAULT_TIME_ZONE,
+    locale: DEFAULT_LOCALE,
+    homeBase: "",
+    participants: [],
+    days: [],
+    lodging: [],
+    tips: [],
+    reminders: DEFAULT_REMINDERS,
+    leaderboards: defaultLeaderboards(),
+    leaderboardHistory: [],
+    bets: [],
+    payments: [],
+    expenses: [],
+    homeCurrency: "USD",
+    exchangeRates: DEFAULT_EXCHANGE_RATES,
+  };
+}
+
+// Keep the roster, plan, lodging and tips of a past trip but start the leaderboards, ledger and expenses from zero;
+// imported calendar UIDs belong to last year's bookings, so they're dropped. Boards are worked out from
+// scorecards too, so the cards keep the course's holes but lose their strokes; side-game winners and
+// the match results the cup is scored from are cleared with them.
+export function cloneItinerary(source: Itinerary, title: string): Itinerary {
+  const zero = (rows: LeaderboardEntry[]) => rows.map((r) => ({ ...r, score: 0 }));
+  const copy = JSON.parse(JSON.stringify(source)) as Itinerary;
+  for (const day of copy.days) {
+    for (const evt of day.events) {
+      delete evt.uid;
+      const card = evt.round?.scorecard;
+      if (card) card.scores = card.scores.map((s) => ({ ...s, strokes: card.holes.map(() => null) }));
+      for (const game of evt.round?.games ?? []) delete game.winner;
+      for (const group of evt.round?.groups ?? []) delete group.result;
+    }
+  }
+  return {
+    ...copy,
+    tripTitle: title,
+    leaderboards: copy.leaderboards.map((b) => ({ ...b, rows: zero(b.rows) })),
+    leaderboardHistory: [],
+    bets: [],
+    payments: [],
+    expenses: [],
+  };
+}
@@ -0,0 +1,205 @@
+export interface EventItem {
+  id: string;
+  title: string;
+  location: string;
+  start: string; // ISO string
+  end: string;   // ISO string
+  notes?: string;
+  mapQuery?: string;
+  url?: string;
+  tags?: string[];
+  attendees?: string[]; // participant ids; absent means everyone
+  rsvps?: RSVP[];
+  reservation?: number; // party size booked, e.g. the table size at a restaurant
+  uid?: string; // UID from an imported calendar, kept so re-imports update the same event
+  sequence?: number; // iCalendar SEQUENCE, bumped whenever a calendar-visible field changes
+  round?: GolfRound;
+}
+
+// Trip members; events and RSVPs refer to them by id so renaming someone keeps their history
+export interface Participant {
+  id: string;
+  name: string; // may be blank for a spot not yet filled
+  email?: string;
+  phone?: string;
+  handicap?: number;  // handicap index
+  arrival?: string;   // YYYY-MM-DD; absent means from the start of the trip
+  departure?: string; // YYYY-MM-DD; absent means to the end
+}
+// Boards, pairings, scorecards and the ledger refer to people by "person ref": a participant
+// id, or the name as typed for someone not linked to a participant yet
+export type RSVPStatus = "yes" | "no" | "maybe";
+export interface RSVP {
+  participantId: string;
+  status: RSVPStatus;
+}
+
+// Golf rounds
+export type MatchFormat = "fourball" | "foursomes" | "singles" | "strokeplay" | "stableford" | "scramble";
+export interface RoundPlayer {
+  name: string;           // as typed; shown when not linked to a participant
+  participantId?: string;
+  handicap?: number;
+}
+// One tee time; "A + B v. C + D" is two sides, a group that isn't a match is one side
+export interface TeeGroup {
+  id: string;
+  teeTime: string; // ISO string
+  sides: RoundPlayer[][];
+  result?: MatchOutcome; // entered by hand when the match has no scorecard
+}
+export type MatchOutcome = "A" | "B" | "halved"; // A = sides[0]
+export interface GolfRound {
+  course: string;
+  format: MatchFormat;
+  groups: TeeGroup[];
+  slope?: number;  // slope rating of the tees played (113 is standard)
+  rating?: number; // course rating of the tees played
+  scorecard?: Scorecard;
+  games?: SideGame[];
+}
+
+// Side games played alongside a round's matches
+export type SideGameKind = "nassau" | "skins" | "closest" | "longDrive";
+export interface SideGame {
+  id: string;
+  kind: SideGameKind;
+  stake: number;     // dollars per player: per Nassau bet, per skin, or for the prize
+  players: string[]; // person refs; empty means everyone on the card
+  hole?: number;     // 1-based; closest to the pin and long drive
+  winner?: string;   // closest to the pin and long drive, entered by hand
+}
+
+// Scorecards
+export interface HoleInfo {
+  par: number;
+  strokeIndex: number; // 1 = hardest hole
+}
+export interface PlayerScore {
+  player: string; // person ref
+  strokes: (number | null)[]; // one per hole; null until entered
+}
+export interface Scorecard {
+  holes: HoleInfo[];
+  scores: PlayerScore[];
+  stake: number; // dollars each player wins or loses per match
+  net: boolean;  // results use handicap strokes
+}
+export interface GolfRoundEvent extends EventItem {
+  round: GolfRound;
+}
+export interface DayPlan {
+  id: string; // YYYY-MM-DD
+  dateLabel?: string;
+  city: string;
+  timeZone?: string; // IANA zone; overrides Itinerary.timeZone for trips that cross zones
+  notes?: string;
+  events: EventItem[];
+}
+// Calendar alarm for every event carrying `tag`
+export interface ReminderRule {
+  tag: string;
+  minutesBefore: number;
+}
+
+export interface LodgingItem {
+  nights: string;
+  name: string;
+  city: string;
+}
+
+// NEW: Leaderboards
+export interface LeaderboardEntry {
+  player: string; // person ref
+  score: number | string; // allow +12 or "-26"
+}
+export type BoardSort = "high" | "low"; // which end of the board wins
+export type BoardFormat = "money" | "number" | "signed" | "toPar";
+export type BoardTieBreak = "shared" | "countback";
+export type BoardSource = "ledger" | "wins" | "toPar" | "stableford";
+
+export interface Leaderboard {
+  id: string;
+  name: string;
+  unit?: string; // heading for the score column, e.g. "pts"
+  sort: BoardSort;
+  format: BoardFormat;
+  tieBreak: BoardTieBreak;
+  source?: BoardSource; // worked out from scorecards or the ledger once there's data; typed rows otherwise
+  rows: LeaderboardEntry[];
+}
+
+// Typed boards as they stood at the end of a day, so movement can be shown once they change
+export interface LeaderboardSnapshot {
+  dayId: string;
+  boards: Record<string, LeaderboardEntry[]>; // by board id
+}
+
+// Handicap index per person ref, as scoring looks them up
+export interface PlayerHandicap {
+  player: string;
+  index: number;
+}
+
+// A wager outside the scorecard ("Levin bet Moran $20 on the Kinsale match")
+export interface Bet {
+  id: string;
+  description: string;
+  winner: string; // person ref
+  loser: string;  // person ref
+  amount: number;
+}
+// Money handed over when settling up
+export interface Payment {
+  id: string;
+  from: string; // person ref
+  to: string;   // person ref
+  amount: number;
+}
+
+// Shared costs, split evenly among the people they cover
+export type Currency = "EUR" | "USD" | "GBP";
+export interface Expense {
+  id: string;
+  description: string;
+  amount: number;
+  currency: Currency;
+  paidBy: string;       // person ref
+  splitAmong: string[]; // person refs; empty means everyone
+  dayId?: string;
+  eventId?: string;
+}
+
+// Team competition (Ryder Cup style) played across the trip's matches
+export interface CupTeam {
+  name: string;
+  captain: string;
+  color: string; // CSS color
+  players: string[]; // person refs
+}
+export interface Cup {
+  name: string;
+  teams: [CupTeam, CupTeam];
+}
+
+export interface Itinerary {
+  schemaVersion: number; // see CURRENT_SCHEMA_VERSION in lib/migrations
+  tripTitle: string;
+  subtitle: string;
+  timeZone: string; // IANA zone the trip happens in, e.g. "Europe/Dublin"
+  locale: string;   // BCP 47 locale for dates, e.g. "en-US"
+  homeBase: string;
+  participants: Participant[];
+  days: DayPlan[];
+  lodging: LodgingItem[];
+  tips: string[];
+  reminders: ReminderRule[];
+  leaderboards: Leaderboard[]; // NEW
+  leaderboardHistory: LeaderboardSnapshot[]; // oldest first, one per day
+  bets: Bet[];
+  payments: Payment[];
+  expenses: Expense[];
+  homeCurrency: Currency;
+  exchangeRates: Record<Currency, number>; // value of one unit in US dollars; edited relative to homeCurrency
+  cup?: Cup;
+}